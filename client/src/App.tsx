@@ -11,6 +11,12 @@ import MarketplacePage from "@/pages/marketplace";
 import SellerDashboard from "@/pages/seller-dashboard";
 import ProjectDashboard from "@/pages/project-dashboard";
 import AdminDashboard from "@/pages/admin-dashboard";
+import RfqsPage from "@/pages/rfqs";
+import SavedListsPage from "@/pages/saved-lists";
+import SharedListPage from "@/pages/shared-list";
+import RecurringOrdersPage from "@/pages/recurring-orders";
+import SellerStorefrontPage from "@/pages/seller-storefront";
+import DriverDeliveriesPage from "@/pages/driver-deliveries";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -19,8 +25,14 @@ function Router() {
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
       <ProtectedRoute path="/marketplace" component={MarketplacePage} />
+      <ProtectedRoute path="/sellers/:id" component={SellerStorefrontPage} />
       <ProtectedRoute path="/seller" component={SellerDashboard} roles={["seller", "admin"]} />
       <ProtectedRoute path="/projects" component={ProjectDashboard} roles={["client", "admin"]} />
+      <ProtectedRoute path="/rfqs" component={RfqsPage} roles={["buyer", "client", "seller", "admin"]} />
+      <ProtectedRoute path="/lists" component={SavedListsPage} roles={["buyer", "client"]} />
+      <ProtectedRoute path="/lists/shared/:token" component={SharedListPage} />
+      <ProtectedRoute path="/recurring-orders" component={RecurringOrdersPage} roles={["buyer", "client"]} />
+      <ProtectedRoute path="/deliveries" component={DriverDeliveriesPage} roles={["driver"]} />
       <ProtectedRoute path="/admin" component={AdminDashboard} roles={["admin"]} />
       <Route component={NotFound} />
     </Switch>
@@ -1,16 +1,46 @@
 import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Hammer, Menu, User, LogOut, ShoppingCart, Package, FolderOpen, Settings } from "lucide-react";
+import { Hammer, Menu, User, LogOut, ShoppingCart, Package, FolderOpen, Settings, FileText, ListChecks, Truck, Repeat, Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 
 export default function Navbar() {
   const { user, logoutMutation, switchRoleMutation } = useAuth();
   const [, navigate] = useLocation();
   const [isOpen, setIsOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+    refetchInterval: 60_000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PATCH", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unreadCount = notifications?.filter(notification => !notification.readAt).length ?? 0;
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.readAt) {
+      readMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
 
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -27,7 +57,7 @@ export default function Navbar() {
       label: "Home",
       href: "/",
       icon: Hammer,
-      roles: ["buyer", "seller", "client", "admin"],
+      roles: ["buyer", "seller", "client", "admin", "driver"],
     },
     {
       label: "Browse Materials",
@@ -47,6 +77,30 @@ export default function Navbar() {
       icon: FolderOpen,
       roles: ["client", "admin"],
     },
+    {
+      label: "Quotations",
+      href: "/rfqs",
+      icon: FileText,
+      roles: ["buyer", "client", "seller", "admin"],
+    },
+    {
+      label: "Saved Lists",
+      href: "/lists",
+      icon: ListChecks,
+      roles: ["buyer", "client"],
+    },
+    {
+      label: "Recurring Orders",
+      href: "/recurring-orders",
+      icon: Repeat,
+      roles: ["buyer", "client"],
+    },
+    {
+      label: "My Deliveries",
+      href: "/deliveries",
+      icon: Truck,
+      roles: ["driver"],
+    },
     {
       label: "Admin Dashboard",
       href: "/admin",
@@ -96,6 +150,39 @@ export default function Navbar() {
 
           {/* User Menu / Auth Buttons */}
           <div className="flex items-center space-x-4">
+            {user && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+                    <Bell className="h-5 w-5" />
+                    {unreadCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center">
+                        {unreadCount}
+                      </span>
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="w-80" align="end">
+                  <p className="text-sm font-medium p-2">Notifications</p>
+                  <DropdownMenuSeparator />
+                  {!notifications || notifications.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-2">Nothing new</p>
+                  ) : (
+                    notifications.slice(0, 10).map((notification) => (
+                      <DropdownMenuItem
+                        key={notification.id}
+                        onClick={() => handleNotificationClick(notification)}
+                        className="cursor-pointer flex-col items-start"
+                        data-testid={`notification-${notification.id}`}
+                      >
+                        <span className={`text-sm ${notification.readAt ? "" : "font-semibold"}`}>{notification.title}</span>
+                        <span className="text-xs text-muted-foreground">{notification.body}</span>
+                      </DropdownMenuItem>
+                    ))
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             {user ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
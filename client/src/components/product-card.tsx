@@ -1,26 +1,76 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Star, Package, ShoppingCart } from "lucide-react";
-import type { Product } from "@shared/schema";
+import { Star, Package, ShoppingCart, ListPlus, Store } from "lucide-react";
+import { formatVariantOptions, units, type Product, type ProductVariant, type SavedList, type UnitCode } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import ProductReviews from "@/components/product-reviews";
 
 interface ProductCardProps {
-  product: Product;
+  product: Product & { variants?: ProductVariant[]; rating?: number | null; reviewCount?: number };
 }
 
 export default function ProductCard({ product }: ProductCardProps) {
   const { user } = useAuth();
+  const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const variants = product.variants ?? [];
+  const [variantId, setVariantId] = useState<string | undefined>(variants[0]?.id);
+  const [showReviews, setShowReviews] = useState(false);
+  const selectedVariant = variants.find(variant => variant.id === variantId);
+
+  // A selected variant sets what the card shows and what goes into the cart
+  const price = selectedVariant?.price ?? product.price;
+  const stock = selectedVariant?.stock ?? product.stock;
+  const imageUrl = selectedVariant?.imageUrl || product.imageUrl;
+  const unitLabel = units[product.unit as UnitCode]?.label ?? product.unit;
+  const displayName = selectedVariant
+    ? `${product.name} (${formatVariantOptions(selectedVariant.options)})`
+    : product.name;
+
+  const canSaveToList = user?.role === "buyer" || user?.role === "client";
+  const { data: savedLists } = useQuery<SavedList[]>({
+    queryKey: ["/api/lists"],
+    enabled: canSaveToList,
+  });
+
+  const saveToListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      await apiRequest("POST", `/api/lists/${listId}/items`, {
+        productId: product.id,
+        variantId: selectedVariant?.id,
+        quantity: 1,
+      });
+      return savedLists?.find(list => list.id === listId);
+    },
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+      toast({
+        title: "Saved",
+        description: `${displayName} has been saved to ${list?.name ?? "your list"}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const addToCartMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("POST", "/api/cart", {
         productId: product.id,
+        variantId: selectedVariant?.id,
         quantity: 1,
       });
     },
@@ -28,7 +78,7 @@ export default function ProductCard({ product }: ProductCardProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
       toast({
         title: "Added to cart",
-        description: `${product.name} has been added to your cart.`,
+        description: `${displayName} has been added to your cart.`,
       });
     },
     onError: (error: Error) => {
@@ -59,7 +109,7 @@ export default function ProductCard({ product }: ProductCardProps) {
       return;
     }
 
-    if (product.stock === 0) {
+    if (stock === 0) {
       toast({
         title: "Out of stock",
         description: "This product is currently out of stock.",
@@ -72,9 +122,9 @@ export default function ProductCard({ product }: ProductCardProps) {
   };
 
   const getStockStatus = () => {
-    if (product.stock === 0) {
+    if (stock === 0) {
       return <Badge variant="destructive">Out of Stock</Badge>;
-    } else if (product.stock < 10) {
+    } else if (stock < 10) {
       return <Badge variant="outline">Low Stock</Badge>;
     } else {
       return <Badge variant="default">In Stock</Badge>;
@@ -87,9 +137,9 @@ export default function ProductCard({ product }: ProductCardProps) {
       data-testid={`product-card-${product.id}`}
     >
       <div className="relative">
-        {product.imageUrl ? (
+        {imageUrl ? (
           <img
-            src={product.imageUrl}
+            src={imageUrl}
             alt={product.name}
             className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
           />
@@ -115,38 +165,80 @@ export default function ProductCard({ product }: ProductCardProps) {
           {product.description}
         </p>
 
+        <button
+          type="button"
+          onClick={() => navigate(`/sellers/${product.sellerId}`)}
+          className="flex items-center text-sm text-gray-500 hover:text-primary mb-3"
+          data-testid={`button-seller-${product.id}`}
+        >
+          <Store className="w-4 h-4 mr-1" />
+          View seller
+        </button>
+
         <div className="flex items-center justify-between mb-4">
           <div className="text-2xl font-bold text-primary" data-testid={`product-price-${product.id}`}>
-            ${product.price}
+            ${price}
+            <span className="text-sm font-normal text-gray-500"> / {unitLabel}</span>
+            {product.packSize && product.packUnit && (
+              <div className="text-xs font-normal text-gray-500" data-testid={`product-pack-${product.id}`}>
+                {parseFloat(product.packSize)} {units[product.packUnit as UnitCode]?.plural ?? product.packUnit} per {unitLabel}
+              </div>
+            )}
           </div>
           <div className="text-sm text-gray-500">
-            Stock: {product.stock}
+            Stock: {stock}
           </div>
         </div>
 
+        {variants.length > 0 && (
+          <Select value={variantId} onValueChange={setVariantId}>
+            <SelectTrigger className="mb-4" data-testid={`select-variant-${product.id}`}>
+              <SelectValue placeholder="Choose an option" />
+            </SelectTrigger>
+            <SelectContent>
+              {variants.map(variant => (
+                <SelectItem key={variant.id} value={variant.id}>
+                  {formatVariantOptions(variant.options)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         <div className="flex items-center justify-between mb-4">
           <Badge variant="secondary" className="text-xs">
             {product.category}
           </Badge>
           
-          <div className="flex items-center text-sm text-gray-600">
-            <Star className="w-4 h-4 text-yellow-400 mr-1 fill-current" />
-            <span>4.8</span>
-            <span className="mx-1">·</span>
-            <span>142 reviews</span>
-          </div>
+          <button
+            type="button"
+            onClick={() => setShowReviews(true)}
+            className="flex items-center text-sm text-gray-600 hover:text-primary"
+            data-testid={`button-reviews-${product.id}`}
+          >
+            {product.rating ? (
+              <>
+                <Star className="w-4 h-4 text-yellow-400 mr-1 fill-current" />
+                <span>{product.rating.toFixed(1)}</span>
+                <span className="mx-1">·</span>
+                <span>{product.reviewCount} {product.reviewCount === 1 ? "review" : "reviews"}</span>
+              </>
+            ) : (
+              <span>No reviews yet</span>
+            )}
+          </button>
         </div>
 
         {user?.role === "buyer" && (
           <Button
             onClick={handleAddToCart}
-            disabled={product.stock === 0 || addToCartMutation.isPending}
+            disabled={stock === 0 || addToCartMutation.isPending}
             className="w-full bg-primary text-white hover:bg-primary-600 transition-colors"
             data-testid={`button-add-to-cart-${product.id}`}
           >
             {addToCartMutation.isPending ? (
               "Adding..."
-            ) : product.stock === 0 ? (
+            ) : stock === 0 ? (
               "Out of Stock"
             ) : (
               <>
@@ -157,6 +249,24 @@ export default function ProductCard({ product }: ProductCardProps) {
           </Button>
         )}
 
+        {canSaveToList && savedLists && savedLists.length > 0 && (
+          <Select value="" onValueChange={(listId) => saveToListMutation.mutate(listId)}>
+            <SelectTrigger className="mt-2" disabled={saveToListMutation.isPending} data-testid={`select-save-to-list-${product.id}`}>
+              <div className="flex items-center text-sm">
+                <ListPlus className="w-4 h-4 mr-2" />
+                Save to list
+              </div>
+            </SelectTrigger>
+            <SelectContent>
+              {savedLists.map(list => (
+                <SelectItem key={list.id} value={list.id}>
+                  {list.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {!user && (
           <Button
             onClick={handleAddToCart}
@@ -175,6 +285,8 @@ export default function ProductCard({ product }: ProductCardProps) {
           </div>
         )}
       </CardContent>
+
+      <ProductReviews product={product} open={showReviews} onOpenChange={setShowReviews} />
     </Card>
   );
 }
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Star } from "lucide-react";
+import type { Product, ProductReview, ReviewPhoto, User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface ProductReviewDetails extends ProductReview {
+  product: Pick<Product, "id" | "name" | "sellerId">;
+  reviewer: Pick<User, "id" | "username" | "businessName">;
+  photos: ReviewPhoto[];
+}
+
+interface ProductReviewsProps {
+  product: Product;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StarRating({ rating, size = "w-4 h-4" }: { rating: number; size?: string }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star key={star} className={`${size} ${star <= Math.round(rating) ? "text-yellow-400 fill-current" : "text-gray-300"}`} />
+      ))}
+    </div>
+  );
+}
+
+const emptyReviewForm = { rating: 0, body: "" };
+
+// A listing's published reviews, with the review form for buyers and the reply box for its seller
+export default function ProductReviews({ product, open, onOpenChange }: ProductReviewsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reviewForm, setReviewForm] = useState(emptyReviewForm);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [replies, setReplies] = useState<Record<string, string>>({});
+
+  const { data: reviews, isLoading } = useQuery<ProductReviewDetails[]>({
+    queryKey: ["/api/products", product.id, "reviews"],
+    enabled: open,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("rating", String(reviewForm.rating));
+      formData.append("body", reviewForm.body);
+      for (const photo of photos) {
+        formData.append("photos", photo);
+      }
+
+      const response = await fetch(`/api/products/${product.id}/reviews`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to post review");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setReviewForm(emptyReviewForm);
+      setPhotos([]);
+      toast({
+        title: "Review posted",
+        description: "Thanks for helping other buyers.",
+      });
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, reply }: { id: string; reply: string }) => {
+      await apiRequest("POST", `/api/reviews/${id}/reply`, { reply });
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products", product.id, "reviews"] });
+      setReplies(current => ({ ...current, [id]: "" }));
+    },
+    onError,
+  });
+
+  const canReview = user?.role === "buyer" || user?.role === "client";
+  const isSeller = user?.id === product.sellerId;
+  const alreadyReviewed = reviews?.some(review => review.userId === user?.id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reviews for {product.name}</DialogTitle>
+        </DialogHeader>
+
+        {canReview && !alreadyReviewed && (
+          <div className="space-y-3 p-4 border rounded-lg">
+            <Label>Your rating</Label>
+            <div className="flex items-center space-x-1">
+              {[1, 2, 3, 4, 5].map(star => (
+                <button
+                  key={star}
+                  type="button"
+                  onClick={() => setReviewForm(form => ({ ...form, rating: star }))}
+                  data-testid={`button-rate-${star}`}
+                >
+                  <Star className={`w-6 h-6 ${star <= reviewForm.rating ? "text-yellow-400 fill-current" : "text-gray-300"}`} />
+                </button>
+              ))}
+            </div>
+            <Textarea
+              placeholder="How did the product hold up on site?"
+              value={reviewForm.body}
+              onChange={(e) => setReviewForm(form => ({ ...form, body: e.target.value }))}
+              data-testid="input-review-body"
+            />
+            <div>
+              <Label htmlFor="review-photos">Photos (up to 5)</Label>
+              <Input
+                id="review-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files ?? []).slice(0, 5))}
+                data-testid="input-review-photos"
+              />
+            </div>
+            <p className="text-xs text-gray-500">Only buyers who have received this product can review it.</p>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => reviewMutation.mutate()}
+                disabled={reviewMutation.isPending || reviewForm.rating === 0 || !reviewForm.body.trim()}
+                data-testid="button-post-review"
+              >
+                Post Review
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : !reviews || reviews.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No reviews yet</div>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map(review => (
+              <div key={review.id} className="p-4 border rounded-lg space-y-2" data-testid={`review-${review.id}`}>
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center space-x-2">
+                    <StarRating rating={review.rating} />
+                    <span className="text-sm font-medium text-gray-900">
+                      {review.reviewer.businessName || review.reviewer.username}
+                    </span>
+                    <Badge variant="outline" className="text-xs">Verified purchase</Badge>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {new Date(review.createdAt!).toLocaleDateString("en-GB")}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+                {review.photos.length > 0 && (
+                  <div className="flex space-x-2">
+                    {review.photos.map(photo => (
+                      <a key={photo.id} href={photo.imageUrl} target="_blank" rel="noreferrer">
+                        <img src={photo.imageUrl} alt="Review photo" className="w-16 h-16 object-cover rounded" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {review.sellerReply && (
+                  <div className="ml-4 p-3 bg-gray-50 rounded text-sm">
+                    <div className="font-medium text-gray-900 mb-1">Seller's reply</div>
+                    <p className="text-gray-700 whitespace-pre-line">{review.sellerReply}</p>
+                  </div>
+                )}
+
+                {isSeller && (
+                  <div className="flex space-x-2 ml-4">
+                    <Input
+                      placeholder={review.sellerReply ? "Update your reply" : "Reply publicly"}
+                      value={replies[review.id] ?? ""}
+                      onChange={(e) => setReplies(current => ({ ...current, [review.id]: e.target.value }))}
+                      data-testid={`input-reply-${review.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => replyMutation.mutate({ id: review.id, reply: replies[review.id] })}
+                      disabled={replyMutation.isPending || !replies[review.id]?.trim()}
+                      data-testid={`button-reply-${review.id}`}
+                    >
+                      Reply
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
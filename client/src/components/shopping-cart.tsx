@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
@@ -15,7 +16,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Trash2, Plus, Minus, ShoppingCart as CartIcon, CreditCard } from "lucide-react";
-import type { CartItem, Product } from "@shared/schema";
+import { formatOpeningHours, formatVariantOptions, ghanaRegions, type CartItem, type OrderFulfillment, type PickupLocation, type Order, type Payment, type Product, type ProductVariant, type User } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 
 interface ShoppingCartProps {
@@ -25,10 +26,51 @@ interface ShoppingCartProps {
 
 interface CartItemWithProduct extends CartItem {
   product: Product;
+  variant: ProductVariant | null;
+  seller: Pick<User, "id" | "username" | "businessName">;
 }
 
+interface PriceQuote {
+  lines: { productId: string; variantId: string | null; quantity: number; unitPrice: number; lineTotal: number }[];
+  subtotal: number;
+  discounts: { code: string; description: string; amount: number }[];
+  discountTotal: number;
+  taxes: {
+    nhil: number;
+    getfund: number;
+    covid: number;
+    vat: number;
+  };
+  taxTotal: number;
+  shipping: number;
+  shippingBySeller: { sellerId: string; zoneName: string | null; pickupLocationId: string | null; fee: number }[];
+  total: number;
+}
+
+interface CartProblem {
+  cartItemId: string;
+  type: "unavailable" | "price_changed" | "insufficient_stock";
+  message: string;
+  available?: number;
+}
+
+const paymentMethods = [
+  { value: "mtn_momo", label: "MTN Mobile Money" },
+  { value: "telecel_cash", label: "Telecel Cash" },
+  { value: "airteltigo_money", label: "AirtelTigo Money" },
+  { value: "card", label: "Debit / Credit Card" },
+] as const;
+
+// Address and region are only needed when something is delivered, which handleCheckout checks
 const checkoutSchema = z.object({
-  shippingAddress: z.string().min(1, "Shipping address is required"),
+  shippingAddress: z.string(),
+  shippingRegion: z.enum(ghanaRegions).optional(),
+  shippingDistrict: z.string().optional(),
+  paymentMethod: z.enum(["mtn_momo", "telecel_cash", "airteltigo_money", "card"]),
+  phoneNumber: z.string().optional(),
+}).refine(data => data.paymentMethod === "card" || !!data.phoneNumber?.trim(), {
+  message: "Mobile money number is required",
+  path: ["phoneNumber"],
 });
 
 type CheckoutFormData = z.infer<typeof checkoutSchema>;
@@ -38,48 +80,81 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showCheckout, setShowCheckout] = useState(false);
-
-  // Fetch cart items first
-  const { data: rawCartItems, isLoading: cartLoading } = useQuery<CartItem[]>({
-    queryKey: ["/api/cart"],
+  // One key per checkout attempt so a double-tapped "Place Order" can't create two orders
+  const [checkoutKey, setCheckoutKey] = useState(() => crypto.randomUUID());
+  const [promotionInput, setPromotionInput] = useState("");
+  const [promotionCode, setPromotionCode] = useState<string | undefined>();
+  // Seller id -> the yard the buyer collects that seller's part from; sellers not in here deliver
+  const [pickupChoices, setPickupChoices] = useState<Record<string, string>>({});
+
+  // Cart lines come back with their product, variant and seller in one request
+  const { data: cartItems, isLoading } = useQuery<CartItemWithProduct[]>({
+    queryKey: ["/api/cart", "with-products"],
     enabled: isOpen && !!user,
-  });
-
-  // Fetch products for cart items
-  const { data: cartItems, isLoading: productsLoading } = useQuery<CartItemWithProduct[]>({
-    queryKey: ["/api/cart", "with-products", rawCartItems?.map(item => item.productId)],
-    enabled: !!(rawCartItems && rawCartItems.length > 0),
     queryFn: async () => {
-      if (!rawCartItems || rawCartItems.length === 0) return [];
-      
-      const itemsWithProducts = await Promise.all(
-        rawCartItems.map(async (item) => {
-          const response = await fetch(`/api/products/${item.productId}`, {
-            credentials: "include",
-          });
-          if (!response.ok) {
-            throw new Error(`Failed to fetch product ${item.productId}`);
-          }
-          const product = await response.json();
-          return { ...item, product };
-        })
-      );
-      return itemsWithProducts;
+      const response = await apiRequest("GET", "/api/cart?include=products");
+      return response.json();
     },
   });
 
-  // Handle empty cart case
-  const finalCartItems = rawCartItems?.length === 0 ? [] : cartItems;
-
-  const isLoading = cartLoading || productsLoading;
-
   const form = useForm<CheckoutFormData>({
     resolver: zodResolver(checkoutSchema),
     defaultValues: {
       shippingAddress: "",
+      shippingDistrict: "",
+      paymentMethod: "mtn_momo",
+      phoneNumber: "",
     },
   });
 
+  const sellerIds = Array.from(new Set(cartItems?.map(item => item.product.sellerId) || [])).sort();
+  const { data: pickupLocations } = useQuery<PickupLocation[]>({
+    queryKey: ["/api/pickup-locations", sellerIds.join(",")],
+    enabled: sellerIds.length > 0,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/pickup-locations?sellerIds=${sellerIds.join(",")}`);
+      return res.json();
+    },
+  });
+  const pickupLocationIds = sellerIds.map(sellerId => pickupChoices[sellerId]).filter(Boolean);
+  const needsDelivery = sellerIds.some(sellerId => !pickupChoices[sellerId]);
+  const sellersWithPickup = sellerIds.flatMap(sellerId => {
+    const seller = cartItems?.find(item => item.product.sellerId === sellerId)?.seller;
+    const locations = pickupLocations?.filter(location => location.sellerId === sellerId) || [];
+    return seller && locations.length > 0 ? [{ seller, locations }] : [];
+  });
+
+  // Totals, taxes and shipping are priced by the server so they match the order that gets stored.
+  // Shipping depends on the delivery region, so it stays at zero until the buyer picks one or collects everything.
+  const quoteItems = cartItems?.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId ?? undefined,
+    quantity: item.quantity,
+  })) || [];
+  const shippingRegion = form.watch("shippingRegion");
+  const shippingDistrict = form.watch("shippingDistrict")?.trim() || undefined;
+  const { data: quote, error: quoteError } = useQuery<PriceQuote>({
+    queryKey: ["/api/checkout/quote", quoteItems, promotionCode, shippingRegion, shippingDistrict, pickupLocationIds],
+    enabled: quoteItems.length > 0,
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/checkout/quote", {
+        items: quoteItems,
+        promotionCode,
+        shippingRegion,
+        shippingDistrict,
+        pickupLocationIds,
+      });
+      return res.json();
+    },
+  });
+
+  // Price changes, stock shortfalls and delisted products all have to be dealt with before checkout
+  const { data: cartCheck } = useQuery<{ valid: boolean; problems: CartProblem[] }>({
+    queryKey: ["/api/cart", "validate"],
+    enabled: isOpen && !!cartItems && cartItems.length > 0,
+  });
+  const problemsFor = (cartItemId: string) => cartCheck?.problems.filter(problem => problem.cartItemId === cartItemId) ?? [];
+
   const updateQuantityMutation = useMutation({
     mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
       if (quantity <= 0) {
@@ -122,27 +197,88 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
 
   const checkoutMutation = useMutation({
     mutationFn: async (data: CheckoutFormData) => {
-      const items = finalCartItems?.map(item => ({
+      const items = cartItems?.map(item => ({
         productId: item.productId,
+        variantId: item.variantId ?? undefined,
         quantity: item.quantity,
+        price: item.price,
       })) || [];
 
-      await apiRequest("POST", "/api/orders", {
-        shippingAddress: data.shippingAddress,
-        items,
-      });
+      let orderRes: Response;
+      try {
+        orderRes = await apiRequest("POST", "/api/orders", {
+          shippingAddress: data.shippingAddress.trim() || undefined,
+          shippingRegion: needsDelivery ? data.shippingRegion : undefined,
+          shippingDistrict: needsDelivery ? data.shippingDistrict?.trim() || undefined : undefined,
+          pickupLocationIds,
+          items,
+          promotionCode,
+        }, { "Idempotency-Key": `${checkoutKey}-order` });
+      } catch (error) {
+        // The server turned the order down, so the corrected resubmit is a new attempt; after a
+        // network error the order may have gone through, so the key is kept for the retry
+        if (!(error instanceof TypeError)) {
+          setCheckoutKey(crypto.randomUUID());
+        }
+        throw error;
+      }
+      const order: Order = await orderRes.json();
+
+      const paymentRes = await apiRequest("POST", `/api/orders/${order.id}/payments`, {
+        method: data.paymentMethod,
+        phoneNumber: data.paymentMethod === "card" ? undefined : data.phoneNumber?.replace(/\s/g, ""),
+      }, { "Idempotency-Key": `${checkoutKey}-payment` });
+      const payment = (await paymentRes.json()) as Payment & { redirectUrl?: string };
+
+      // The buyer shows these codes at the yard, so they're read back from the stored fulfillments
+      let pickupCodes: string[] = [];
+      if (pickupLocationIds.length > 0) {
+        const fulfillmentsRes = await apiRequest("GET", `/api/orders/${order.id}/fulfillments`);
+        const fulfillments: OrderFulfillment[] = await fulfillmentsRes.json();
+        pickupCodes = fulfillments.flatMap(fulfillment => (fulfillment.pickupCode ? [fulfillment.pickupCode] : []));
+      }
+      return { payment, pickupCodes };
     },
-    onSuccess: () => {
+    onSuccess: ({ payment, pickupCodes }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       setShowCheckout(false);
+      setPickupChoices({});
       onClose();
-      toast({
-        title: "Order placed successfully!",
-        description: "Your order has been submitted and is being processed.",
-      });
+
+      if (pickupCodes.length > 0) {
+        toast({
+          title: pickupCodes.length === 1 ? "Your pickup code" : "Your pickup codes",
+          description: `Show ${pickupCodes.join(", ")} at the yard when you collect.`,
+        });
+      }
+
+      if (payment.redirectUrl) {
+        window.location.href = payment.redirectUrl;
+        return;
+      }
+
+      if (payment.status === "failed") {
+        toast({
+          title: "Payment failed",
+          description: "Your order was placed but the payment did not go through.",
+          variant: "destructive",
+        });
+      } else if (payment.status === "pending") {
+        toast({
+          title: "Order placed",
+          description: "Approve the payment prompt on your phone to confirm your order.",
+        });
+      } else {
+        toast({
+          title: "Order placed successfully!",
+          description: "Your payment was received and your order is confirmed.",
+        });
+      }
     },
     onError: (error: Error) => {
+      // The cart may have changed underneath the buyer; refresh so the problem lines show
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
       toast({
         title: "Checkout failed",
         description: error.message,
@@ -161,17 +297,21 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
   };
 
   const handleCheckout = (data: CheckoutFormData) => {
+    if (needsDelivery && !data.shippingAddress.trim()) {
+      form.setError("shippingAddress", { message: "Shipping address is required" });
+      return;
+    }
+    if (needsDelivery && !data.shippingRegion) {
+      form.setError("shippingRegion", { message: "Choose a delivery region" });
+      return;
+    }
     checkoutMutation.mutate(data);
   };
 
-  const subtotal = (finalCartItems && Array.isArray(finalCartItems)) ? finalCartItems.reduce(
-    (sum, item) => sum + parseFloat(item.product.price) * item.quantity,
-    0
-  ) : 0;
-
-  const tax = subtotal * 0.08; // 8% tax
-  const shipping = subtotal > 100 ? 0 : 15; // Free shipping over $100
-  const total = subtotal + tax + shipping;
+  const subtotal = quote?.subtotal ?? 0;
+  const tax = quote?.taxTotal ?? 0;
+  const shipping = quote?.shipping ?? 0;
+  const total = quote?.total ?? 0;
 
   if (!user || user.role !== "buyer") {
     return null;
@@ -203,7 +343,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                     </div>
                   ))}
                 </div>
-              ) : !finalCartItems || finalCartItems.length === 0 ? (
+              ) : !cartItems || cartItems.length === 0 ? (
                 <div className="text-center py-12">
                   <CartIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <p className="text-gray-600 mb-4">Your cart is empty</p>
@@ -211,15 +351,15 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {finalCartItems.map((item) => (
+                  {cartItems.map((item) => (
                     <div
                       key={item.id}
                       className="flex items-center space-x-4 p-4 border rounded-lg"
                       data-testid={`cart-item-${item.id}`}
                     >
-                      {item.product.imageUrl ? (
+                      {(item.variant?.imageUrl || item.product.imageUrl) ? (
                         <img
-                          src={item.product.imageUrl}
+                          src={item.variant?.imageUrl || item.product.imageUrl!}
                           alt={item.product.name}
                           className="w-16 h-16 object-cover rounded-lg"
                         />
@@ -231,15 +371,52 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
 
                       <div className="flex-1">
                         <h4 className="font-semibold text-gray-900">{item.product.name}</h4>
+                        {item.variant && (
+                          <p className="text-sm text-gray-700">{formatVariantOptions(item.variant.options)}</p>
+                        )}
                         <p className="text-sm text-gray-600 line-clamp-1">{item.product.description}</p>
                         <div className="flex items-center justify-between mt-2">
                           <span className="text-lg font-bold text-primary">
-                            ${item.product.price}
+                            ${(quote?.lines.find(line => line.productId === item.productId && line.variantId === (item.variantId ?? null))?.unitPrice
+                              ?? parseFloat(item.variant?.price ?? item.product.price)).toFixed(2)}
                           </span>
                           <Badge variant="secondary" className="text-xs">
                             {item.product.category}
                           </Badge>
                         </div>
+                        {problemsFor(item.id).map(problem => (
+                          <div
+                            key={problem.type}
+                            className="flex items-center justify-between mt-2 text-sm text-red-600"
+                            data-testid={`cart-problem-${problem.type}-${item.id}`}
+                          >
+                            <span>{problem.message}</span>
+                            {problem.type === "price_changed" && (
+                              <Button
+                                size="sm"
+                                variant="link"
+                                className="h-auto p-0"
+                                onClick={() => updateQuantityMutation.mutate({ id: item.id, quantity: item.quantity })}
+                                disabled={updateQuantityMutation.isPending}
+                                data-testid={`button-accept-price-${item.id}`}
+                              >
+                                Accept new price
+                              </Button>
+                            )}
+                            {problem.type === "insufficient_stock" && !!problem.available && (
+                              <Button
+                                size="sm"
+                                variant="link"
+                                className="h-auto p-0"
+                                onClick={() => updateQuantityMutation.mutate({ id: item.id, quantity: problem.available! })}
+                                disabled={updateQuantityMutation.isPending}
+                                data-testid={`button-reduce-quantity-${item.id}`}
+                              >
+                                Reduce to {problem.available}
+                              </Button>
+                            )}
+                          </div>
+                        ))}
                       </div>
 
                       <div className="flex flex-col items-end space-y-2">
@@ -262,7 +439,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                             size="sm"
                             variant="outline"
                             onClick={() => updateQuantity(item.id, item.quantity, 1)}
-                            disabled={updateQuantityMutation.isPending || item.quantity >= item.product.stock}
+                            disabled={updateQuantityMutation.isPending || item.quantity >= (item.variant?.stock ?? item.product.stock)}
                             data-testid={`button-increase-${item.id}`}
                           >
                             <Plus className="w-3 h-3" />
@@ -294,14 +471,20 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                     <span>Subtotal</span>
                     <span data-testid="cart-subtotal">${subtotal.toFixed(2)}</span>
                   </div>
+                  {quote && quote.discountTotal > 0 && (
+                    <div className="flex justify-between text-sm text-green-700">
+                      <span>Discounts</span>
+                      <span data-testid="cart-discount">-${quote.discountTotal.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
-                    <span>Tax</span>
+                    <span>VAT & levies</span>
                     <span data-testid="cart-tax">${tax.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span>Shipping</span>
                     <span data-testid="cart-shipping">
-                      {shipping === 0 ? "FREE" : `$${shipping.toFixed(2)}`}
+                      {needsDelivery && !shippingRegion ? "Calculated at checkout" : shipping === 0 ? "FREE" : `$${shipping.toFixed(2)}`}
                     </span>
                   </div>
                   <div className="border-t pt-2">
@@ -313,8 +496,12 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                 </div>
 
                 <Button
-                  onClick={() => setShowCheckout(true)}
+                  onClick={() => {
+                    setCheckoutKey(crypto.randomUUID());
+                    setShowCheckout(true);
+                  }}
                   className="w-full"
+                  disabled={!cartCheck?.valid}
                   data-testid="button-checkout"
                 >
                   <CreditCard className="w-4 h-4 mr-2" />
@@ -334,19 +521,122 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
           </DialogHeader>
 
           <form onSubmit={form.handleSubmit(handleCheckout)} className="space-y-4">
+            {sellersWithPickup.length > 0 && (
+              <div className="space-y-3">
+                <Label>Delivery or pickup</Label>
+                {sellersWithPickup.map(({ seller, locations }) => (
+                  <div key={seller.id}>
+                    <p className="text-sm text-gray-600 mb-1">{seller.businessName || seller.username}</p>
+                    <Select
+                      value={pickupChoices[seller.id] || "delivery"}
+                      onValueChange={(value) => setPickupChoices(choices => ({ ...choices, [seller.id]: value === "delivery" ? "" : value }))}
+                    >
+                      <SelectTrigger data-testid={`select-pickup-${seller.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="delivery">Deliver to me</SelectItem>
+                        {locations.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            Collect from {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {locations.filter(location => location.id === pickupChoices[seller.id]).map((location) => (
+                      <p key={location.id} className="text-xs text-gray-500 mt-1">
+                        {location.address}, {location.region} · {formatOpeningHours(location.openingHours)}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {needsDelivery && (
+              <>
+                <div>
+                  <Label htmlFor="shipping-address">Shipping Address</Label>
+                  <Textarea
+                    id="shipping-address"
+                    {...form.register("shippingAddress")}
+                    placeholder="Enter your complete shipping address..."
+                    data-testid="input-shipping-address"
+                  />
+                  {form.formState.errors.shippingAddress && (
+                    <p className="text-sm text-red-600 mt-1">
+                      {form.formState.errors.shippingAddress.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="shipping-region">Region</Label>
+                    <Select
+                      value={shippingRegion}
+                      onValueChange={(value) => form.setValue("shippingRegion", value as CheckoutFormData["shippingRegion"], { shouldValidate: true })}
+                    >
+                      <SelectTrigger id="shipping-region" data-testid="select-shipping-region">
+                        <SelectValue placeholder="Select region" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ghanaRegions.map((region) => (
+                          <SelectItem key={region} value={region}>
+                            {region}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {form.formState.errors.shippingRegion && (
+                      <p className="text-sm text-red-600 mt-1">
+                        {form.formState.errors.shippingRegion.message}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="shipping-district">District</Label>
+                    <Input
+                      id="shipping-district"
+                      {...form.register("shippingDistrict")}
+                      placeholder="e.g. Tema Metropolitan"
+                      data-testid="input-shipping-district"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+            {(shippingRegion || !needsDelivery) && quoteError && !promotionCode && (
+              <p className="text-sm text-red-600">{quoteError.message}</p>
+            )}
+
             <div>
-              <Label htmlFor="shipping-address">Shipping Address</Label>
-              <Textarea
-                id="shipping-address"
-                {...form.register("shippingAddress")}
-                placeholder="Enter your complete shipping address..."
-                data-testid="input-shipping-address"
-              />
-              {form.formState.errors.shippingAddress && (
-                <p className="text-sm text-red-600 mt-1">
-                  {form.formState.errors.shippingAddress.message}
-                </p>
+              <Label htmlFor="promotion-code">Promo Code</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="promotion-code"
+                  value={promotionInput}
+                  onChange={(e) => setPromotionInput(e.target.value)}
+                  placeholder="Enter promo code"
+                  data-testid="input-promotion-code"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setPromotionCode(promotionInput.trim() || undefined)}
+                  data-testid="button-apply-promotion"
+                >
+                  Apply
+                </Button>
+              </div>
+              {promotionCode && quoteError && (
+                <p className="text-sm text-red-600 mt-1">{quoteError.message}</p>
               )}
+              {quote?.discounts.map((discount) => (
+                <p key={discount.code} className="text-sm text-green-700 mt-1">
+                  {discount.description}: -${discount.amount.toFixed(2)}
+                </p>
+              ))}
             </div>
 
             {/* Order Summary */}
@@ -359,14 +649,38 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                   <span>Subtotal</span>
                   <span>${subtotal.toFixed(2)}</span>
                 </div>
+                {quote && quote.discountTotal > 0 && (
+                  <div className="flex justify-between text-sm text-green-700">
+                    <span>Discounts</span>
+                    <span>-${quote.discountTotal.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm">
+                  <span>NHIL (2.5%)</span>
+                  <span>${(quote?.taxes.nhil ?? 0).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>GETFund levy (2.5%)</span>
+                  <span>${(quote?.taxes.getfund ?? 0).toFixed(2)}</span>
+                </div>
                 <div className="flex justify-between text-sm">
-                  <span>Tax</span>
-                  <span>${tax.toFixed(2)}</span>
+                  <span>COVID-19 levy (1%)</span>
+                  <span>${(quote?.taxes.covid ?? 0).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>VAT (15%)</span>
+                  <span>${(quote?.taxes.vat ?? 0).toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span>Shipping</span>
-                  <span>{shipping === 0 ? "FREE" : `$${shipping.toFixed(2)}`}</span>
+                  <span>{needsDelivery && !shippingRegion ? "Select a region" : shipping === 0 ? "FREE" : `$${shipping.toFixed(2)}`}</span>
                 </div>
+                {quote && quote.shippingBySeller.length > 1 && quote.shippingBySeller.map((entry) => (
+                  <div key={entry.sellerId} className="flex justify-between text-xs text-gray-500 pl-2">
+                    <span>{entry.pickupLocationId ? "Pickup" : entry.zoneName ?? "Standard delivery"}</span>
+                    <span>{entry.fee === 0 ? "FREE" : `$${entry.fee.toFixed(2)}`}</span>
+                  </div>
+                ))}
                 <div className="border-t pt-2">
                   <div className="flex justify-between font-semibold">
                     <span>Total</span>
@@ -376,13 +690,42 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
               </CardContent>
             </Card>
 
-            {/* Payment Notice */}
-            <div className="bg-blue-50 p-4 rounded-lg">
-              <p className="text-sm text-blue-800">
-                <strong>Demo Mode:</strong> This is a demonstration checkout. No real payment will be processed.
-              </p>
+            <div>
+              <Label htmlFor="payment-method">Payment Method</Label>
+              <Select
+                defaultValue={form.getValues("paymentMethod")}
+                onValueChange={(value) => form.setValue("paymentMethod", value as CheckoutFormData["paymentMethod"])}
+              >
+                <SelectTrigger id="payment-method" data-testid="select-payment-method">
+                  <SelectValue placeholder="Select payment method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
+            {form.watch("paymentMethod") !== "card" && (
+              <div>
+                <Label htmlFor="phone-number">Mobile Money Number</Label>
+                <Input
+                  id="phone-number"
+                  {...form.register("phoneNumber")}
+                  placeholder="e.g. 024 123 4567"
+                  data-testid="input-phone-number"
+                />
+                {form.formState.errors.phoneNumber && (
+                  <p className="text-sm text-red-600 mt-1">
+                    {form.formState.errors.phoneNumber.message}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end space-x-4 pt-4">
               <Button
                 type="button"
@@ -394,7 +737,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
               </Button>
               <Button
                 type="submit"
-                disabled={checkoutMutation.isPending}
+                disabled={checkoutMutation.isPending || !quote || !cartCheck?.valid}
                 data-testid="button-place-order"
               >
                 {checkoutMutation.isPending ? "Processing..." : "Place Order"}
@@ -12,11 +12,12 @@ async function throwIfResNotOk(res: Response) {
 export async function apiRequest(
   method: string,
   url: string,
-  data?: unknown
+  data?: unknown,
+  headers: Record<string, string> = {}
 ): Promise<Response> {
   const res = await fetch(`${API_BASE}${url}`, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include", // ensures cookies/auth work
   });
@@ -1,12 +1,16 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import Navbar from "@/components/navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Users, Package, FolderOpen, ShoppingBag, TrendingUp, Activity, ArrowLeft } from "lucide-react";
-import type { User, Product, Project } from "@shared/schema";
+import { roleEnum, type User, type Product, type Project } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { StarRating, type ProductReviewDetails } from "@/components/product-reviews";
 
 interface AdminStats {
   totalUsers: number;
@@ -19,6 +23,8 @@ interface AdminStats {
 
 export default function AdminDashboard() {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const { data: stats, isLoading: statsLoading } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
@@ -36,6 +42,55 @@ export default function AdminDashboard() {
     queryKey: ["/api/projects"],
   });
 
+  const { data: reviews, isLoading: reviewsLoading } = useQuery<ProductReviewDetails[]>({
+    queryKey: ["/api/admin/reviews"],
+  });
+
+  const moderateReviewMutation = useMutation({
+    mutationFn: async ({ id, status, note }: { id: string; status: "published" | "hidden"; note?: string }) => {
+      await apiRequest("PATCH", `/api/admin/reviews/${id}`, { status, note });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Driver isn't offered at sign-up, so admins give drivers their role here
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: string }) => {
+      await apiRequest("PATCH", `/api/admin/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleModerate = (review: ProductReviewDetails) => {
+    if (review.status === "hidden") {
+      moderateReviewMutation.mutate({ id: review.id, status: "published" });
+      return;
+    }
+    const note = window.prompt("Why is this review being hidden?");
+    if (note !== null) {
+      moderateReviewMutation.mutate({ id: review.id, status: "hidden", note: note || undefined });
+    }
+  };
+
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case "admin":
@@ -205,6 +260,18 @@ export default function AdminDashboard() {
                         <Badge variant={getRoleBadgeVariant(user.role)}>
                           {user.role}
                         </Badge>
+                        <Select value={user.role} onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role })}>
+                          <SelectTrigger className="w-28 h-8" data-testid={`select-role-${user.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roleEnum.enumValues.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {role}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                     </div>
                   ))}
@@ -313,6 +380,56 @@ export default function AdminDashboard() {
             )}
           </CardContent>
         </Card>
+
+        {/* Review Moderation */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Recent Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reviewsLoading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-20 w-full" />
+                ))}
+              </div>
+            ) : !reviews || reviews.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-600">No reviews yet</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {reviews.slice(0, 10).map((review) => (
+                  <div key={review.id} className="flex items-start justify-between p-3 border rounded-lg" data-testid={`admin-review-${review.id}`}>
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <StarRating rating={review.rating} />
+                        <span className="font-medium text-gray-900">{review.product.name}</span>
+                        <span className="text-sm text-gray-500">by {review.reviewer.username}</span>
+                      </div>
+                      <p className="text-sm text-gray-700 line-clamp-2">{review.body}</p>
+                      {review.moderationNote && (
+                        <p className="text-xs text-gray-500">Moderation note: {review.moderationNote}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={review.status === "hidden" ? "destructive" : "outline"}>{review.status}</Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleModerate(review)}
+                        disabled={moderateReviewMutation.isPending}
+                        data-testid={`button-moderate-${review.id}`}
+                      >
+                        {review.status === "hidden" ? "Publish" : "Hide"}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Navbar from "@/components/navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Truck, MapPin, CheckCircle } from "lucide-react";
+import type { Delivery, DeliveryStatus, Order, OrderItem } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DriverDelivery extends Delivery {
+  order: Pick<Order, "id" | "shippingAddress" | "shippingRegion" | "shippingDistrict">;
+  items: Pick<OrderItem, "id" | "productName" | "quantity">[];
+}
+
+const statusLabels: Record<DeliveryStatus, string> = {
+  scheduled: "Scheduled",
+  assigned: "Assigned",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  failed: "Failed",
+};
+
+const emptyProofForm = { recipientName: "", note: "" };
+
+function formatSlot(delivery: Delivery): string {
+  const start = new Date(delivery.scheduledStart);
+  const end = new Date(delivery.scheduledEnd);
+  const time = (date: Date) => date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+  return `${start.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" })}, ${time(start)} - ${time(end)}`;
+}
+
+// A driver's run: the deliveries they've been given, in slot order, and the proof they collect at each stop
+export default function DriverDeliveriesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [proofDelivery, setProofDelivery] = useState<DriverDelivery | null>(null);
+  const [proofForm, setProofForm] = useState(emptyProofForm);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [signature, setSignature] = useState<File | null>(null);
+
+  const { data: deliveries, isLoading } = useQuery<DriverDelivery[]>({
+    queryKey: ["/api/driver/deliveries"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status, note }: { id: string; status: "out_for_delivery" | "failed"; note?: string }) => {
+      await apiRequest("PATCH", `/api/deliveries/${id}/status`, { status, note });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/deliveries"] });
+    },
+    onError,
+  });
+
+  const proofMutation = useMutation({
+    mutationFn: async () => {
+      if (!proofDelivery || !photo) return;
+      const formData = new FormData();
+      formData.append("recipientName", proofForm.recipientName);
+      if (proofForm.note) {
+        formData.append("note", proofForm.note);
+      }
+      formData.append("photo", photo);
+      if (signature) {
+        formData.append("signature", signature);
+      }
+
+      const response = await fetch(`/api/deliveries/${proofDelivery.id}/proof`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to record proof of delivery");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver/deliveries"] });
+      setProofDelivery(null);
+      setProofForm(emptyProofForm);
+      setPhoto(null);
+      setSignature(null);
+      toast({
+        title: "Delivered",
+        description: "Proof of delivery saved.",
+      });
+    },
+    onError,
+  });
+
+  const handleFailed = (delivery: DriverDelivery) => {
+    const note = window.prompt("What went wrong with this delivery?");
+    if (note !== null) {
+      statusMutation.mutate({ id: delivery.id, status: "failed", note: note || undefined });
+    }
+  };
+
+  const active = deliveries?.filter(delivery => delivery.status !== "delivered") || [];
+  const completed = deliveries?.filter(delivery => delivery.status === "delivered") || [];
+
+  const renderDelivery = (delivery: DriverDelivery) => (
+    <div key={delivery.id} className="p-4 border rounded-lg space-y-3" data-testid={`delivery-${delivery.id}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <div className="font-medium text-gray-900">{formatSlot(delivery)}</div>
+          <div className="text-sm text-gray-600 flex items-start mt-1">
+            <MapPin className="w-4 h-4 mr-1 mt-0.5 shrink-0" />
+            <span>
+              {delivery.order.shippingAddress}
+              {delivery.order.shippingRegion && (
+                <> · {delivery.order.shippingDistrict ? `${delivery.order.shippingDistrict}, ` : ""}{delivery.order.shippingRegion}</>
+              )}
+            </span>
+          </div>
+        </div>
+        <Badge variant={delivery.status === "failed" ? "destructive" : delivery.status === "delivered" ? "secondary" : "default"}>
+          {statusLabels[delivery.status]}
+        </Badge>
+      </div>
+
+      <ul className="text-sm text-gray-700 list-disc pl-5">
+        {delivery.items.map(item => (
+          <li key={item.id}>{item.quantity} × {item.productName ?? "Item"}</li>
+        ))}
+      </ul>
+
+      {delivery.status === "delivered" && delivery.recipientName && (
+        <p className="text-sm text-gray-500">Received by {delivery.recipientName}</p>
+      )}
+
+      <div className="flex space-x-2">
+        {delivery.status === "assigned" && (
+          <Button
+            size="sm"
+            onClick={() => statusMutation.mutate({ id: delivery.id, status: "out_for_delivery" })}
+            disabled={statusMutation.isPending}
+            data-testid={`button-start-${delivery.id}`}
+          >
+            <Truck className="w-4 h-4 mr-2" />
+            Start Delivery
+          </Button>
+        )}
+        {delivery.status === "out_for_delivery" && (
+          <Button size="sm" onClick={() => setProofDelivery(delivery)} data-testid={`button-deliver-${delivery.id}`}>
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Confirm Delivery
+          </Button>
+        )}
+        {(delivery.status === "assigned" || delivery.status === "out_for_delivery") && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleFailed(delivery)}
+            disabled={statusMutation.isPending}
+            data-testid={`button-failed-${delivery.id}`}
+          >
+            Report Failed
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.history.back()}
+              className="flex items-center"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">My Deliveries</h1>
+          <p className="text-gray-600 mt-2">Your delivery run, in slot order</p>
+        </div>
+
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Skeleton key={i} className="h-32 w-full" />
+                  ))}
+                </div>
+              ) : active.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Truck className="w-10 h-10 mx-auto mb-2 text-gray-400" />
+                  No deliveries assigned to you
+                </div>
+              ) : (
+                <div className="space-y-4">{active.map(renderDelivery)}</div>
+              )}
+            </CardContent>
+          </Card>
+
+          {completed.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Completed</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">{completed.map(renderDelivery)}</div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Proof of Delivery Dialog */}
+      <Dialog open={!!proofDelivery} onOpenChange={(open) => !open && setProofDelivery(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Proof of Delivery</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="recipient-name">Received by</Label>
+              <Input
+                id="recipient-name"
+                value={proofForm.recipientName}
+                onChange={(e) => setProofForm({ ...proofForm, recipientName: e.target.value })}
+                placeholder="Name of the person who took the goods"
+                data-testid="input-recipient-name"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="proof-photo">Photo of the goods</Label>
+              <Input
+                id="proof-photo"
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+                data-testid="input-proof-photo"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="proof-signature">Signature (optional)</Label>
+              <Input
+                id="proof-signature"
+                type="file"
+                accept="image/*"
+                onChange={(e) => setSignature(e.target.files?.[0] || null)}
+                data-testid="input-proof-signature"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="proof-note">Note</Label>
+              <Textarea
+                id="proof-note"
+                value={proofForm.note}
+                onChange={(e) => setProofForm({ ...proofForm, note: e.target.value })}
+                placeholder="e.g. Left with the site foreman"
+                data-testid="input-proof-note"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-4">
+              <Button type="button" variant="outline" onClick={() => setProofDelivery(null)} data-testid="button-cancel-proof">
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={() => proofMutation.mutate()}
+                disabled={!proofForm.recipientName.trim() || !photo || proofMutation.isPending}
+                data-testid="button-save-proof"
+              >
+                Mark Delivered
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,7 +18,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Plus, Calendar, MapPin, Camera, CheckCircle, Clock, Circle, Upload, Trash2, Edit, ArrowLeft, Package, DollarSign, TrendingUp } from "lucide-react";
-import type { Project, Milestone, ProgressImage, ProjectInventory, ProjectExpense } from "@shared/schema";
+import { unitCodes, units, parseUnit, type Project, type Milestone, type ProgressImage, type ProjectInventory, type ProjectExpense } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 
 const projectSchema = z.object({
@@ -35,6 +35,12 @@ const milestoneSchema = z.object({
   dueDate: z.string().optional(),
 });
 
+// Older inventory rows hold free-text units; show them as typed if they don't map to a unit code
+function formatUnit(unit: string) {
+  const code = parseUnit(unit);
+  return code ? units[code].plural : unit;
+}
+
 const inventorySchema = z.object({
   itemName: z.string().min(1, "Item name is required"),
   description: z.string().optional(),
@@ -602,7 +608,9 @@ export default function ProjectDashboard() {
                                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-3 text-sm">
                                     <div>
                                       <span className="text-gray-500">Quantity:</span>
-                                      <span className="ml-1 font-medium">{item.quantity} {item.unit}</span>
+                                      <span className="ml-1 font-medium">
+                                        {item.quantity} {formatUnit(item.unit)}
+                                      </span>
                                     </div>
                                     {item.unitCost && (
                                       <div>
@@ -1033,12 +1041,21 @@ export default function ProjectDashboard() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="item-unit">Unit</Label>
-                <Input
-                  id="item-unit"
-                  {...inventoryForm.register("unit")}
-                  placeholder="e.g., kg, pieces, liters"
-                  data-testid="input-item-unit"
-                />
+                <Select
+                  value={inventoryForm.watch("unit")}
+                  onValueChange={(value) => inventoryForm.setValue("unit", value, { shouldValidate: true })}
+                >
+                  <SelectTrigger id="item-unit" data-testid="select-item-unit">
+                    <SelectValue placeholder="Select unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unitCodes.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {units[code].plural}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 {inventoryForm.formState.errors.unit && (
                   <p className="text-sm text-red-600 mt-1">{inventoryForm.formState.errors.unit.message}</p>
                 )}
@@ -0,0 +1,454 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Navbar from "@/components/navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, ArrowLeft, Repeat, Pause, Play, Pencil } from "lucide-react";
+import {
+  formatVariantOptions, ghanaRegions,
+  type GhanaRegion, type Product, type ProductVariant, type RecurringFrequency, type RecurringOrder, type RecurringOrderItem,
+  type RecurringOrderStatus, type SavedList,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { SavedListDetails } from "./saved-lists";
+
+interface RecurringOrderDetails extends RecurringOrder {
+  items: (RecurringOrderItem & { product: Product; variant: ProductVariant | null })[];
+}
+
+const frequencyLabels: Record<RecurringFrequency, string> = {
+  weekly: "Every week",
+  fortnightly: "Every two weeks",
+  monthly: "Every month",
+};
+
+const statusLabels: Record<RecurringOrderStatus, string> = {
+  active: "Active",
+  paused: "Paused",
+  ended: "Ended",
+};
+
+// Runs are placed at 8am on the chosen day
+const RUN_TIME = "T08:00";
+
+const emptyScheduleForm = {
+  name: "",
+  frequency: "weekly" as RecurringFrequency,
+  nextRunDate: "",
+  endDate: "",
+  shippingAddress: "",
+  shippingRegion: "" as GhanaRegion | "",
+  shippingDistrict: "",
+  listId: "",
+};
+
+function toDateInput(value: Date | string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+}
+
+// Standing orders for materials a site gets through on a cycle; the server places each run and notifies the user
+export default function RecurringOrdersPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<RecurringOrderDetails | null>(null);
+  const [resuming, setResuming] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [scheduleForm, setScheduleForm] = useState(emptyScheduleForm);
+
+  const { data: schedules, isLoading } = useQuery<RecurringOrderDetails[]>({
+    queryKey: ["/api/recurring-orders"],
+  });
+
+  const { data: lists } = useQuery<(SavedList & { itemCount: number })[]>({
+    queryKey: ["/api/lists"],
+    enabled: showForm,
+  });
+
+  const { data: list } = useQuery<SavedListDetails>({
+    queryKey: ["/api/lists", scheduleForm.listId],
+    enabled: !!scheduleForm.listId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setResuming(false);
+    setScheduleForm(emptyScheduleForm);
+  };
+
+  const openCreate = () => {
+    setScheduleForm(emptyScheduleForm);
+    setEditing(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (schedule: RecurringOrderDetails, resume = false) => {
+    setEditing(schedule);
+    setResuming(resume);
+    setScheduleForm({
+      name: schedule.name,
+      frequency: schedule.frequency,
+      nextRunDate: new Date(schedule.nextRunAt) > new Date() ? toDateInput(schedule.nextRunAt) : "",
+      endDate: toDateInput(schedule.endDate),
+      shippingAddress: schedule.shippingAddress,
+      shippingRegion: schedule.shippingRegion as GhanaRegion,
+      shippingDistrict: schedule.shippingDistrict ?? "",
+      listId: "",
+    });
+    setShowForm(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const items = list?.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId ?? undefined,
+        quantity: item.quantity,
+      }));
+      const body = {
+        name: scheduleForm.name,
+        frequency: scheduleForm.frequency,
+        nextRunAt: new Date(scheduleForm.nextRunDate + RUN_TIME).toISOString(),
+        endDate: scheduleForm.endDate ? new Date(scheduleForm.endDate + RUN_TIME).toISOString() : null,
+        shippingAddress: scheduleForm.shippingAddress,
+        shippingRegion: scheduleForm.shippingRegion,
+        shippingDistrict: scheduleForm.shippingDistrict || undefined,
+        items: scheduleForm.listId ? items : undefined,
+        ...(resuming ? { status: "active" } : {}),
+      };
+      if (editing) {
+        await apiRequest("PATCH", `/api/recurring-orders/${editing.id}`, body);
+      } else {
+        await apiRequest("POST", "/api/recurring-orders", body);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-orders"] });
+      toast({
+        title: editing ? "Schedule updated" : "Schedule created",
+        description: "We'll let you know before each order if prices or stock have changed.",
+      });
+      closeForm();
+    },
+    onError,
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PATCH", `/api/recurring-orders/${id}`, { status: "paused" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-orders"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/recurring-orders/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-orders"] });
+    },
+    onError,
+  });
+
+  const canSave = scheduleForm.name.trim() && scheduleForm.nextRunDate && scheduleForm.shippingAddress.trim()
+    && scheduleForm.shippingRegion && (editing || (list && list.items.length > 0));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.history.back()}
+              className="flex items-center"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </div>
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Recurring Orders</h1>
+              <p className="text-gray-600 mt-2">Keep your sites supplied on a schedule</p>
+            </div>
+            <Button onClick={openCreate} data-testid="button-new-schedule">
+              <Plus className="w-4 h-4 mr-2" />
+              New Schedule
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-40 w-full" />
+            ))}
+          </div>
+        ) : !schedules || schedules.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center text-gray-500">
+              <Repeat className="w-10 h-10 mx-auto mb-2 text-gray-400" />
+              No recurring orders yet. Start one from a saved list.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {schedules.map(schedule => {
+              const total = schedule.items.reduce((sum, item) => sum + parseFloat(item.expectedPrice) * item.quantity, 0);
+              return (
+                <Card key={schedule.id} data-testid={`schedule-${schedule.id}`}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle>{schedule.name}</CardTitle>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {frequencyLabels[schedule.frequency]}
+                          {schedule.status === "active" && <> · next order {formatDate(schedule.nextRunAt)}</>}
+                          {schedule.endDate && <> · until {formatDate(schedule.endDate)}</>}
+                        </p>
+                        <p className="text-sm text-gray-500 mt-1">
+                          {schedule.shippingAddress} · {schedule.shippingDistrict ? `${schedule.shippingDistrict}, ` : ""}{schedule.shippingRegion}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant={schedule.status === "active" ? "default" : "secondary"}>
+                          {statusLabels[schedule.status]}
+                        </Badge>
+                        {schedule.status === "active" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => pauseMutation.mutate(schedule.id)}
+                            disabled={pauseMutation.isPending}
+                            data-testid={`button-pause-${schedule.id}`}
+                          >
+                            <Pause className="w-4 h-4 mr-2" />
+                            Pause
+                          </Button>
+                        )}
+                        {schedule.status === "paused" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openEdit(schedule, true)}
+                            data-testid={`button-resume-${schedule.id}`}
+                          >
+                            <Play className="w-4 h-4 mr-2" />
+                            Resume
+                          </Button>
+                        )}
+                        {schedule.status !== "ended" && (
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(schedule)} data-testid={`button-edit-${schedule.id}`}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(schedule.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-${schedule.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {schedule.items.map(item => (
+                        <div key={item.id} className="flex justify-between text-sm">
+                          <span className="text-gray-700">
+                            {item.quantity} × {item.variant ? `${item.product.name} (${formatVariantOptions(item.variant.options)})` : item.product.name}
+                          </span>
+                          <span className="text-gray-500">GHS {item.expectedPrice} each</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-end text-sm text-gray-600 pt-2 border-t">
+                        Before delivery and taxes: <span className="font-semibold text-gray-900 ml-1">GHS {total.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={showForm} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{resuming ? "Resume Schedule" : editing ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="e.g. East Legon site cement"
+                value={scheduleForm.name}
+                onChange={(e) => setScheduleForm(form => ({ ...form, name: e.target.value }))}
+                data-testid="input-schedule-name"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="schedule-list">{editing ? "Replace items with a saved list" : "Items from saved list"}</Label>
+              <Select
+                value={scheduleForm.listId}
+                onValueChange={(value) => setScheduleForm(form => ({ ...form, listId: value }))}
+              >
+                <SelectTrigger id="schedule-list" data-testid="select-schedule-list">
+                  <SelectValue placeholder={editing ? "Keep current items" : "Select a list"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {lists?.map(entry => (
+                    <SelectItem key={entry.id} value={entry.id}>
+                      {entry.name} ({entry.itemCount})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {list && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {list.items.length === 0
+                    ? "This list is empty"
+                    : list.items.map(item => `${item.quantity} × ${item.product.name}`).join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="schedule-frequency">How often</Label>
+                <Select
+                  value={scheduleForm.frequency}
+                  onValueChange={(value) => setScheduleForm(form => ({ ...form, frequency: value as RecurringFrequency }))}
+                >
+                  <SelectTrigger id="schedule-frequency" data-testid="select-schedule-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(frequencyLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="schedule-next-run">{editing ? "Next order" : "First order"}</Label>
+                <Input
+                  id="schedule-next-run"
+                  type="date"
+                  value={scheduleForm.nextRunDate}
+                  onChange={(e) => setScheduleForm(form => ({ ...form, nextRunDate: e.target.value }))}
+                  data-testid="input-schedule-next-run"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="schedule-end">End date (optional)</Label>
+              <Input
+                id="schedule-end"
+                type="date"
+                value={scheduleForm.endDate}
+                onChange={(e) => setScheduleForm(form => ({ ...form, endDate: e.target.value }))}
+                data-testid="input-schedule-end"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="schedule-address">Delivery address</Label>
+              <Textarea
+                id="schedule-address"
+                value={scheduleForm.shippingAddress}
+                onChange={(e) => setScheduleForm(form => ({ ...form, shippingAddress: e.target.value }))}
+                data-testid="input-schedule-address"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="schedule-region">Region</Label>
+                <Select
+                  value={scheduleForm.shippingRegion}
+                  onValueChange={(value) => setScheduleForm(form => ({ ...form, shippingRegion: value as GhanaRegion }))}
+                >
+                  <SelectTrigger id="schedule-region" data-testid="select-schedule-region">
+                    <SelectValue placeholder="Select region" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ghanaRegions.map((region) => (
+                      <SelectItem key={region} value={region}>
+                        {region}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="schedule-district">District</Label>
+                <Input
+                  id="schedule-district"
+                  value={scheduleForm.shippingDistrict}
+                  onChange={(e) => setScheduleForm(form => ({ ...form, shippingDistrict: e.target.value }))}
+                  data-testid="input-schedule-district"
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              Orders are placed at 8am on the day and wait for your payment. You'll be told the day before if a price or stock level has changed.
+            </p>
+
+            <div className="flex justify-end space-x-4">
+              <Button type="button" variant="outline" onClick={closeForm} data-testid="button-cancel-schedule">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!canSave || saveMutation.isPending}
+                data-testid="button-save-schedule"
+              >
+                {resuming ? "Resume" : editing ? "Save" : "Create Schedule"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
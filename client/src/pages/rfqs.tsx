@@ -0,0 +1,625 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import Navbar from "@/components/navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, ArrowLeft, FileText, CheckCircle } from "lucide-react";
+import {
+  unitCodes, units, formatVariantOptions, ghanaRegions,
+  type GhanaRegion, type Rfq, type RfqItem, type RfqQuote, type RfqQuoteLine, type Product, type ProductVariant, type UnitCode,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface RfqDetails extends Rfq {
+  items: RfqItem[];
+  quotes: (RfqQuote & { lines: RfqQuoteLine[] })[];
+}
+
+type SellerProduct = Product & { variants: ProductVariant[] };
+
+const emptyItem = { description: "", quantity: "", unit: "piece" };
+const emptyRfqForm = { title: "", deliveryAddress: "", deliveryRegion: "" as GhanaRegion | "", deliveryDistrict: "", neededBy: "", notes: "" };
+
+const statusVariant = (status: string) => {
+  switch (status) {
+    case "open":
+    case "submitted":
+      return "default";
+    case "awarded":
+    case "accepted":
+      return "secondary";
+    default:
+      return "outline";
+  }
+};
+
+export default function RfqsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isSeller = user?.role === "seller";
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [rfqForm, setRfqForm] = useState(emptyRfqForm);
+  const [rfqItems, setRfqItems] = useState([emptyItem]);
+  const [quoteLines, setQuoteLines] = useState<Record<string, { productId: string; variantId: string; quantity: string; unitPrice: string }>>({});
+  const [quoteForm, setQuoteForm] = useState({ deliveryDate: "", validUntil: "", notes: "" });
+
+  const { data: rfqs, isLoading } = useQuery<Rfq[]>({
+    queryKey: ["/api/rfqs"],
+  });
+
+  const { data: rfq } = useQuery<RfqDetails>({
+    queryKey: ["/api/rfqs", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const { data: sellerProducts } = useQuery<SellerProduct[]>({
+    queryKey: ["/api/seller/products"],
+    enabled: isSeller,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createRfqMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/rfqs", {
+        ...rfqForm,
+        deliveryDistrict: rfqForm.deliveryDistrict || undefined,
+        neededBy: rfqForm.neededBy || undefined,
+        items: rfqItems.map(item => ({ ...item, quantity: parseInt(item.quantity) })),
+      });
+      return (await res.json()) as Rfq;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfqs"] });
+      setShowCreate(false);
+      setRfqForm(emptyRfqForm);
+      setRfqItems([emptyItem]);
+      setSelectedId(created.id);
+      toast({
+        title: "RFQ posted",
+        description: "Sellers can now send you quotes.",
+      });
+    },
+    onError,
+  });
+
+  const submitQuoteMutation = useMutation({
+    mutationFn: async (rfqId: string) => {
+      const lines = Object.entries(quoteLines)
+        .filter(([, line]) => line.productId && line.quantity && line.unitPrice)
+        .map(([rfqItemId, line]) => ({
+          rfqItemId,
+          productId: line.productId,
+          variantId: line.variantId || undefined,
+          quantity: parseInt(line.quantity),
+          unitPrice: line.unitPrice,
+        }));
+      await apiRequest("POST", `/api/rfqs/${rfqId}/quotes`, {
+        deliveryDate: quoteForm.deliveryDate,
+        validUntil: quoteForm.validUntil || undefined,
+        notes: quoteForm.notes || undefined,
+        lines,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfqs"] });
+      setQuoteLines({});
+      setQuoteForm({ deliveryDate: "", validUntil: "", notes: "" });
+      toast({
+        title: "Quote submitted",
+        description: "The buyer will be able to review your quote.",
+      });
+    },
+    onError,
+  });
+
+  const withdrawQuoteMutation = useMutation({
+    mutationFn: async ({ rfqId, quoteId }: { rfqId: string; quoteId: string }) => {
+      await apiRequest("POST", `/api/rfqs/${rfqId}/quotes/${quoteId}/withdraw`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfqs"] });
+    },
+    onError,
+  });
+
+  const acceptQuoteMutation = useMutation({
+    mutationFn: async ({ rfqId, quoteId }: { rfqId: string; quoteId: string }) => {
+      await apiRequest("POST", `/api/rfqs/${rfqId}/quotes/${quoteId}/accept`, undefined, {
+        "Idempotency-Key": `accept-${quoteId}`,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfqs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Quote accepted",
+        description: "An order has been placed at the quoted prices.",
+      });
+    },
+    onError,
+  });
+
+  const closeRfqMutation = useMutation({
+    mutationFn: async (rfqId: string) => {
+      await apiRequest("POST", `/api/rfqs/${rfqId}/close`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfqs"] });
+    },
+    onError,
+  });
+
+  const updateItem = (index: number, field: keyof typeof emptyItem, value: string) => {
+    setRfqItems(items => items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  const updateQuoteLine = (rfqItemId: string, field: "productId" | "variantId" | "quantity" | "unitPrice", value: string) => {
+    setQuoteLines(lines => {
+      const current = lines[rfqItemId] ?? { productId: "", variantId: "", quantity: "", unitPrice: "" };
+      const next = { ...current, [field]: value };
+      // A different product means a different set of variants
+      if (field === "productId") {
+        next.variantId = "";
+      }
+      return { ...lines, [rfqItemId]: next };
+    });
+  };
+
+  const itemLabel = (item: RfqItem) => `${item.quantity} ${units[item.unit as UnitCode]?.plural ?? item.unit} · ${item.description}`;
+  const myOpenQuote = rfq?.quotes.find(quote => quote.sellerId === user?.id && quote.status === "submitted");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.history.back()}
+              className="flex items-center"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </div>
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Requests for Quotation</h1>
+              <p className="text-gray-600 mt-2">
+                {isSeller ? "Price bulk orders from buyers and contractors" : "Get negotiated prices for bulk materials"}
+              </p>
+            </div>
+            {!isSeller && (
+              <Button onClick={() => setShowCreate(true)} data-testid="button-new-rfq">
+                <Plus className="w-4 h-4 mr-2" />
+                New RFQ
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>RFQs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Skeleton key={i} className="h-16 w-full" />
+                  ))}
+                </div>
+              ) : !rfqs || rfqs.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <FileText className="w-10 h-10 mx-auto mb-2 text-gray-400" />
+                  No RFQs yet
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {rfqs.map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => setSelectedId(entry.id)}
+                      className={`w-full text-left p-3 border rounded-lg hover:bg-gray-50 ${selectedId === entry.id ? "border-primary" : ""}`}
+                      data-testid={`rfq-${entry.id}`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-gray-900">{entry.title}</span>
+                        <Badge variant={statusVariant(entry.status)}>{entry.status}</Badge>
+                      </div>
+                      {entry.neededBy && (
+                        <div className="text-sm text-gray-500 mt-1">
+                          Needed by {new Date(entry.neededBy).toLocaleDateString()}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2">
+            {!rfq ? (
+              <Card>
+                <CardContent className="py-16 text-center text-gray-500">
+                  Select an RFQ to see its items and quotes
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle>{rfq.title}</CardTitle>
+                      <p className="text-sm text-gray-600 mt-1">
+                        Deliver to {rfq.deliveryAddress}
+                        {rfq.deliveryRegion && <> · {rfq.deliveryDistrict ? `${rfq.deliveryDistrict}, ` : ""}{rfq.deliveryRegion}</>}
+                      </p>
+                      {rfq.notes && <p className="text-sm text-gray-600 mt-1">{rfq.notes}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={statusVariant(rfq.status)}>{rfq.status}</Badge>
+                      {!isSeller && rfq.status === "open" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => closeRfqMutation.mutate(rfq.id)}
+                          disabled={closeRfqMutation.isPending}
+                          data-testid="button-close-rfq"
+                        >
+                          Close RFQ
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Items</h3>
+                    <div className="space-y-3">
+                      {rfq.items.map(item => {
+                        const line = quoteLines[item.id];
+                        const product = sellerProducts?.find(candidate => candidate.id === line?.productId);
+                        return (
+                          <div key={item.id} className="p-3 border rounded-lg" data-testid={`rfq-item-${item.id}`}>
+                            <div className="text-sm font-medium text-gray-900">{itemLabel(item)}</div>
+                            {isSeller && rfq.status === "open" && !myOpenQuote && (
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-3">
+                                <Select value={line?.productId ?? ""} onValueChange={(value) => updateQuoteLine(item.id, "productId", value)}>
+                                  <SelectTrigger data-testid={`select-quote-product-${item.id}`}>
+                                    <SelectValue placeholder="Your product" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {sellerProducts?.filter(candidate => candidate.isActive).map(candidate => (
+                                      <SelectItem key={candidate.id} value={candidate.id}>
+                                        {candidate.name} (per {units[candidate.unit as UnitCode]?.label ?? candidate.unit})
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {product && product.variants.length > 0 ? (
+                                  <Select value={line?.variantId ?? ""} onValueChange={(value) => updateQuoteLine(item.id, "variantId", value)}>
+                                    <SelectTrigger data-testid={`select-quote-variant-${item.id}`}>
+                                      <SelectValue placeholder="Option" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {product.variants.map(variant => (
+                                        <SelectItem key={variant.id} value={variant.id}>
+                                          {formatVariantOptions(variant.options)}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <div />
+                                )}
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  placeholder="Quantity"
+                                  value={line?.quantity ?? ""}
+                                  onChange={(e) => updateQuoteLine(item.id, "quantity", e.target.value)}
+                                  data-testid={`input-quote-quantity-${item.id}`}
+                                />
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  placeholder="Unit price ($)"
+                                  value={line?.unitPrice ?? ""}
+                                  onChange={(e) => updateQuoteLine(item.id, "unitPrice", e.target.value)}
+                                  data-testid={`input-quote-price-${item.id}`}
+                                />
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  {isSeller && rfq.status === "open" && !myOpenQuote && (
+                    <div className="space-y-3 border-t pt-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="quote-delivery">Delivery date</Label>
+                          <Input
+                            id="quote-delivery"
+                            type="date"
+                            value={quoteForm.deliveryDate}
+                            onChange={(e) => setQuoteForm(form => ({ ...form, deliveryDate: e.target.value }))}
+                            data-testid="input-quote-delivery"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="quote-valid">Valid until</Label>
+                          <Input
+                            id="quote-valid"
+                            type="date"
+                            value={quoteForm.validUntil}
+                            onChange={(e) => setQuoteForm(form => ({ ...form, validUntil: e.target.value }))}
+                            data-testid="input-quote-valid-until"
+                          />
+                        </div>
+                      </div>
+                      <Textarea
+                        placeholder="Notes for the buyer"
+                        value={quoteForm.notes}
+                        onChange={(e) => setQuoteForm(form => ({ ...form, notes: e.target.value }))}
+                        data-testid="input-quote-notes"
+                      />
+                      <div className="flex justify-end">
+                        <Button
+                          onClick={() => submitQuoteMutation.mutate(rfq.id)}
+                          disabled={submitQuoteMutation.isPending || !quoteForm.deliveryDate}
+                          data-testid="button-submit-quote"
+                        >
+                          Submit Quote
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">{isSeller ? "Your quotes" : "Quotes"}</h3>
+                    {rfq.quotes.length === 0 ? (
+                      <p className="text-sm text-gray-500">No quotes yet</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {rfq.quotes.map(quote => (
+                          <div key={quote.id} className="p-4 border rounded-lg" data-testid={`rfq-quote-${quote.id}`}>
+                            <div className="flex justify-between items-center">
+                              <div>
+                                <div className="font-semibold text-gray-900">${quote.subtotal}</div>
+                                <div className="text-sm text-gray-500">
+                                  Delivery by {new Date(quote.deliveryDate).toLocaleDateString()}
+                                  {quote.validUntil && ` · valid until ${new Date(quote.validUntil).toLocaleDateString()}`}
+                                </div>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <Badge variant={statusVariant(quote.status)}>{quote.status}</Badge>
+                                {!isSeller && rfq.status === "open" && quote.status === "submitted" && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => acceptQuoteMutation.mutate({ rfqId: rfq.id, quoteId: quote.id })}
+                                    disabled={acceptQuoteMutation.isPending}
+                                    data-testid={`button-accept-quote-${quote.id}`}
+                                  >
+                                    <CheckCircle className="w-4 h-4 mr-2" />
+                                    Accept
+                                  </Button>
+                                )}
+                                {isSeller && quote.status === "submitted" && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => withdrawQuoteMutation.mutate({ rfqId: rfq.id, quoteId: quote.id })}
+                                    disabled={withdrawQuoteMutation.isPending}
+                                    data-testid={`button-withdraw-quote-${quote.id}`}
+                                  >
+                                    Withdraw
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                            <div className="mt-2 space-y-1 text-sm text-gray-600">
+                              {quote.lines.map(line => {
+                                const item = rfq.items.find(candidate => candidate.id === line.rfqItemId);
+                                return (
+                                  <div key={line.id}>
+                                    {item?.description}: {line.quantity} × ${line.unitPrice}
+                                  </div>
+                                );
+                              })}
+                            </div>
+                            {quote.notes && <p className="mt-2 text-sm text-gray-600">{quote.notes}</p>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* New RFQ Dialog */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Request for Quotation</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="rfq-title">Title</Label>
+              <Input
+                id="rfq-title"
+                value={rfqForm.title}
+                onChange={(e) => setRfqForm(form => ({ ...form, title: e.target.value }))}
+                placeholder="e.g. Foundation materials for Block B"
+                data-testid="input-rfq-title"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rfq-address">Delivery address</Label>
+                <Input
+                  id="rfq-address"
+                  value={rfqForm.deliveryAddress}
+                  onChange={(e) => setRfqForm(form => ({ ...form, deliveryAddress: e.target.value }))}
+                  data-testid="input-rfq-address"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rfq-needed-by">Needed by</Label>
+                <Input
+                  id="rfq-needed-by"
+                  type="date"
+                  value={rfqForm.neededBy}
+                  onChange={(e) => setRfqForm(form => ({ ...form, neededBy: e.target.value }))}
+                  data-testid="input-rfq-needed-by"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rfq-region">Region</Label>
+                <Select
+                  value={rfqForm.deliveryRegion}
+                  onValueChange={(value) => setRfqForm(form => ({ ...form, deliveryRegion: value as GhanaRegion }))}
+                >
+                  <SelectTrigger id="rfq-region" data-testid="select-rfq-region">
+                    <SelectValue placeholder="Select region" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ghanaRegions.map((region) => (
+                      <SelectItem key={region} value={region}>
+                        {region}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="rfq-district">District</Label>
+                <Input
+                  id="rfq-district"
+                  value={rfqForm.deliveryDistrict}
+                  onChange={(e) => setRfqForm(form => ({ ...form, deliveryDistrict: e.target.value }))}
+                  data-testid="input-rfq-district"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Items</Label>
+              <div className="space-y-2 mt-1">
+                {rfqItems.map((item, index) => (
+                  <div key={index} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2">
+                    <Input
+                      placeholder="Description"
+                      value={item.description}
+                      onChange={(e) => updateItem(index, "description", e.target.value)}
+                      data-testid={`input-rfq-item-description-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="Quantity"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, "quantity", e.target.value)}
+                      data-testid={`input-rfq-item-quantity-${index}`}
+                    />
+                    <Select value={item.unit} onValueChange={(value) => updateItem(index, "unit", value)}>
+                      <SelectTrigger data-testid={`select-rfq-item-unit-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {unitCodes.map(code => (
+                          <SelectItem key={code} value={code}>
+                            {units[code].plural}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRfqItems(items => items.filter((_, i) => i !== index))}
+                      disabled={rfqItems.length === 1}
+                      data-testid={`button-remove-rfq-item-${index}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setRfqItems(items => [...items, emptyItem])}
+                  data-testid="button-add-rfq-item"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Item
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="rfq-notes">Notes</Label>
+              <Textarea
+                id="rfq-notes"
+                value={rfqForm.notes}
+                onChange={(e) => setRfqForm(form => ({ ...form, notes: e.target.value }))}
+                placeholder="Site access, delivery windows, grades required..."
+                data-testid="input-rfq-notes"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-4">
+              <Button variant="outline" onClick={() => setShowCreate(false)} data-testid="button-cancel-rfq">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createRfqMutation.mutate()}
+                disabled={createRfqMutation.isPending || !rfqForm.title || !rfqForm.deliveryAddress || !rfqForm.deliveryRegion}
+                data-testid="button-post-rfq"
+              >
+                Post RFQ
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Navbar from "@/components/navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, ArrowLeft, ListChecks, Share2, ShoppingCart, Package } from "lucide-react";
+import {
+  units, formatVariantOptions,
+  type SavedList, type SavedListItem, type Product, type ProductVariant, type UnitCode,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface SavedListDetails extends SavedList {
+  items: (SavedListItem & { product: Product; variant: ProductVariant | null })[];
+}
+
+interface AddToCartResult {
+  added: unknown[];
+  skipped: { listItemId: string; productId: string; message: string }[];
+}
+
+export function listItemName(item: SavedListDetails["items"][number]) {
+  return item.variant ? `${item.product.name} (${formatVariantOptions(item.variant.options)})` : item.product.name;
+}
+
+export function listItemUnit(item: SavedListDetails["items"][number]) {
+  const unit = units[item.product.unit as UnitCode];
+  return item.quantity === 1 ? unit?.label ?? item.product.unit : unit?.plural ?? item.product.unit;
+}
+
+export default function SavedListsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [listForm, setListForm] = useState({ name: "", description: "" });
+
+  const { data: lists, isLoading } = useQuery<(SavedList & { itemCount: number })[]>({
+    queryKey: ["/api/lists"],
+  });
+
+  const { data: list } = useQuery<SavedListDetails>({
+    queryKey: ["/api/lists", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/lists", {
+        name: listForm.name,
+        description: listForm.description || undefined,
+      });
+      return (await res.json()) as SavedList;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+      setShowCreate(false);
+      setListForm({ name: "", description: "" });
+      setSelectedId(created.id);
+      toast({
+        title: "List created",
+        description: "Save products to it from the marketplace.",
+      });
+    },
+    onError,
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      await apiRequest("DELETE", `/api/lists/${listId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+      setSelectedId(null);
+    },
+    onError,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ listId, itemId, quantity }: { listId: string; itemId: string; quantity: number }) => {
+      await apiRequest("PATCH", `/api/lists/${listId}/items/${itemId}`, { quantity });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+    },
+    onError,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async ({ listId, itemId }: { listId: string; itemId: string }) => {
+      await apiRequest("DELETE", `/api/lists/${listId}/items/${itemId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+    },
+    onError,
+  });
+
+  const addToCartMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      const res = await apiRequest("POST", `/api/lists/${listId}/cart`);
+      return (await res.json()) as AddToCartResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      toast({
+        title: "Added to cart",
+        description: result.skipped.length === 0
+          ? `${result.added.length} items were added to your cart.`
+          : `${result.added.length} items added. Skipped: ${result.skipped.map(item => item.message).join("; ")}`,
+      });
+    },
+    onError,
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async ({ listId, share }: { listId: string; share: boolean }) => {
+      await apiRequest(share ? "POST" : "DELETE", `/api/lists/${listId}/share`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+    },
+    onError,
+  });
+
+  const shareUrl = list?.shareToken ? `${window.location.origin}/lists/shared/${list.shareToken}` : null;
+  const estimatedTotal = list?.items.reduce(
+    (sum, item) => sum + parseFloat(item.variant?.price ?? item.product.price) * item.quantity,
+    0,
+  ) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.history.back()}
+              className="flex items-center"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </div>
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Saved Lists</h1>
+              <p className="text-gray-600 mt-2">Plan material purchases phase by phase</p>
+            </div>
+            <Button onClick={() => setShowCreate(true)} data-testid="button-new-list">
+              <Plus className="w-4 h-4 mr-2" />
+              New List
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Lists</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Skeleton key={i} className="h-16 w-full" />
+                  ))}
+                </div>
+              ) : !lists || lists.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <ListChecks className="w-10 h-10 mx-auto mb-2 text-gray-400" />
+                  No lists yet
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {lists.map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => setSelectedId(entry.id)}
+                      className={`w-full text-left p-3 border rounded-lg hover:bg-gray-50 ${selectedId === entry.id ? "border-primary" : ""}`}
+                      data-testid={`list-${entry.id}`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-gray-900">{entry.name}</span>
+                        {entry.shareToken && <Badge variant="outline">shared</Badge>}
+                      </div>
+                      <div className="text-sm text-gray-500 mt-1">
+                        {entry.itemCount} {entry.itemCount === 1 ? "product" : "products"}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2">
+            {!list ? (
+              <Card>
+                <CardContent className="py-16 text-center text-gray-500">
+                  Select a list to see its products
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle>{list.name}</CardTitle>
+                      {list.description && <p className="text-sm text-gray-600 mt-1">{list.description}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => addToCartMutation.mutate(list.id)}
+                        disabled={addToCartMutation.isPending || list.items.length === 0}
+                        data-testid="button-list-to-cart"
+                      >
+                        <ShoppingCart className="w-4 h-4 mr-2" />
+                        Add all to cart
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => shareMutation.mutate({ listId: list.id, share: !list.shareToken })}
+                        disabled={shareMutation.isPending}
+                        data-testid="button-share-list"
+                      >
+                        <Share2 className="w-4 h-4 mr-2" />
+                        {list.shareToken ? "Stop sharing" : "Share"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteListMutation.mutate(list.id)}
+                        disabled={deleteListMutation.isPending}
+                        data-testid="button-delete-list"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                  {shareUrl && (
+                    <div className="mt-3">
+                      <Label htmlFor="share-url">Read-only link for your contractor</Label>
+                      <Input
+                        id="share-url"
+                        readOnly
+                        value={shareUrl}
+                        onFocus={(e) => e.target.select()}
+                        data-testid="input-share-url"
+                      />
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {list.items.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Nothing saved yet. Use "Save to list" on a product in the marketplace.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {list.items.map(item => {
+                        const unavailable = !item.product.isActive || (item.variant !== null && !item.variant.isActive);
+                        return (
+                          <div key={item.id} className="flex items-center space-x-4 p-3 border rounded-lg" data-testid={`list-item-${item.id}`}>
+                            {(item.variant?.imageUrl || item.product.imageUrl) ? (
+                              <img
+                                src={item.variant?.imageUrl || item.product.imageUrl!}
+                                alt={item.product.name}
+                                className="w-14 h-14 object-cover rounded"
+                              />
+                            ) : (
+                              <div className="w-14 h-14 bg-gray-200 rounded flex items-center justify-center">
+                                <Package className="w-6 h-6 text-gray-400" />
+                              </div>
+                            )}
+                            <div className="flex-1">
+                              <div className="font-medium text-gray-900">{listItemName(item)}</div>
+                              <div className="text-sm text-gray-500">
+                                ${item.variant?.price ?? item.product.price} / {units[item.product.unit as UnitCode]?.label ?? item.product.unit}
+                              </div>
+                              {unavailable && <Badge variant="destructive" className="mt-1">No longer available</Badge>}
+                            </div>
+                            <Input
+                              key={item.quantity}
+                              type="number"
+                              min="1"
+                              className="w-24"
+                              defaultValue={item.quantity}
+                              onBlur={(e) => {
+                                const quantity = parseInt(e.target.value);
+                                if (quantity > 0 && quantity !== item.quantity) {
+                                  updateItemMutation.mutate({ listId: list.id, itemId: item.id, quantity });
+                                }
+                              }}
+                              data-testid={`input-list-quantity-${item.id}`}
+                            />
+                            <span className="text-sm text-gray-500 w-16">{listItemUnit(item)}</span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeItemMutation.mutate({ listId: list.id, itemId: item.id })}
+                              disabled={removeItemMutation.isPending}
+                              data-testid={`button-remove-list-item-${item.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        );
+                      })}
+                      <div className="flex justify-end text-sm text-gray-600 pt-2">
+                        Estimated at today's prices: <span className="font-semibold text-gray-900 ml-1">${estimatedTotal.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New List</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="list-name">Name</Label>
+              <Input
+                id="list-name"
+                placeholder="e.g. Foundation materials"
+                value={listForm.name}
+                onChange={(e) => setListForm(form => ({ ...form, name: e.target.value }))}
+                data-testid="input-list-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="list-description">Description</Label>
+              <Textarea
+                id="list-description"
+                value={listForm.description}
+                onChange={(e) => setListForm(form => ({ ...form, description: e.target.value }))}
+                data-testid="input-list-description"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => createListMutation.mutate()}
+                disabled={createListMutation.isPending || !listForm.name.trim()}
+                data-testid="button-create-list"
+              >
+                Create List
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -15,8 +15,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Package, DollarSign, ShoppingBag, Star, Plus, Edit, Trash2, ArrowLeft } from "lucide-react";
-import type { Product } from "@shared/schema";
+import { Package, DollarSign, ShoppingBag, Star, Plus, Edit, Trash2, ArrowLeft, Layers, Boxes, Truck, Warehouse } from "lucide-react";
+import { formatVariantOptions, variantOptionAxes, unitCodes, units, ghanaRegions, weekdays, formatOpeningHours, type DeliveryZone, type PickupLocation, type Weekday, type Product, type ProductPriceTier, type ProductVariant, type UnitCode } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 
 const productSchema = z.object({
@@ -25,10 +25,39 @@ const productSchema = z.object({
   price: z.string().min(1, "Price is required"),
   stock: z.string().min(1, "Stock is required"),
   category: z.string().min(1, "Category is required"),
+  unit: z.string().min(1, "Unit is required"),
+  packSize: z.string(),
+  packUnit: z.string(),
+  shippingWeight: z.string(),
+  shippingVolume: z.string(),
+}).refine(data => !data.packSize || !!data.packUnit, {
+  message: "Choose what the pack size is measured in",
+  path: ["packUnit"],
 });
 
 type ProductFormData = z.infer<typeof productSchema>;
 
+type ProductWithVariants = Product & { variants: ProductVariant[] };
+
+const emptyVariantForm = { sku: "", price: "", stock: "", size: "", gauge: "", colour: "", grade: "" };
+
+const emptyZoneForm = { name: "", region: "", district: "", rateType: "flat", baseFee: "", rate: "", freeDeliveryThreshold: "" };
+
+const rateTypeLabels: Record<string, string> = { flat: "Flat fee", weight: "Per kg", volume: "Per m³" };
+
+const emptyPickupForm = { name: "", address: "", region: "" };
+
+// A typical yard's week; clearing a day's times marks it closed
+const defaultOpeningHours: Record<Weekday, { opens: string; closes: string }> = {
+  mon: { opens: "07:00", closes: "17:00" },
+  tue: { opens: "07:00", closes: "17:00" },
+  wed: { opens: "07:00", closes: "17:00" },
+  thu: { opens: "07:00", closes: "17:00" },
+  fri: { opens: "07:00", closes: "17:00" },
+  sat: { opens: "08:00", closes: "13:00" },
+  sun: { opens: "", closes: "" },
+};
+
 const categories = [
   "Concrete & Cement",
   "Steel & Metal", 
@@ -47,11 +76,32 @@ export default function SellerDashboard() {
   const [showProductDialog, setShowProductDialog] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [tierProduct, setTierProduct] = useState<Product | null>(null);
+  const [tierRows, setTierRows] = useState<{ minQuantity: string; price: string }[]>([]);
+  const [variantProductId, setVariantProductId] = useState<string | null>(null);
+  const [variantForm, setVariantForm] = useState(emptyVariantForm);
+  const [variantImage, setVariantImage] = useState<File | null>(null);
+  const [showZonesDialog, setShowZonesDialog] = useState(false);
+  const [zoneForm, setZoneForm] = useState(emptyZoneForm);
+  const [showPickupDialog, setShowPickupDialog] = useState(false);
+  const [pickupForm, setPickupForm] = useState(emptyPickupForm);
+  const [openingHours, setOpeningHours] = useState(defaultOpeningHours);
+  const [pickupCode, setPickupCode] = useState("");
 
-  const { data: products, isLoading } = useQuery<Product[]>({
+  const { data: products, isLoading } = useQuery<ProductWithVariants[]>({
     queryKey: ["/api/seller/products"],
   });
 
+  const { data: deliveryZones } = useQuery<DeliveryZone[]>({
+    queryKey: ["/api/seller/delivery-zones"],
+    enabled: user?.role === "seller",
+  });
+
+  const { data: pickupLocations } = useQuery<PickupLocation[]>({
+    queryKey: ["/api/seller/pickup-locations"],
+    enabled: user?.role === "seller",
+  });
+
   const { data: stats } = useQuery({
     queryKey: ["/api/admin/stats"],
     enabled: user?.role === "admin",
@@ -65,6 +115,11 @@ export default function SellerDashboard() {
       price: "",
       stock: "",
       category: "",
+      unit: "piece",
+      packSize: "",
+      packUnit: "",
+      shippingWeight: "",
+      shippingVolume: "",
     },
   });
 
@@ -171,6 +226,217 @@ export default function SellerDashboard() {
     },
   });
 
+  const saveTiersMutation = useMutation({
+    mutationFn: async ({ id, tiers }: { id: string; tiers: { minQuantity: number; price: string }[] }) => {
+      await apiRequest("PUT", `/api/products/${id}/price-tiers`, { tiers });
+    },
+    onSuccess: () => {
+      setTierProduct(null);
+      toast({
+        title: "Success",
+        description: "Bulk pricing updated successfully!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditTiers = async (product: Product) => {
+    const response = await fetch(`/api/products/${product.id}/price-tiers`, {
+      credentials: "include",
+    });
+    const tiers: ProductPriceTier[] = response.ok ? await response.json() : [];
+    setTierRows(tiers.map(tier => ({ minQuantity: tier.minQuantity.toString(), price: tier.price })));
+    setTierProduct(product);
+  };
+
+  const updateTierRow = (index: number, field: "minQuantity" | "price", value: string) => {
+    setTierRows(rows => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSaveTiers = () => {
+    if (!tierProduct) return;
+    const tiers = tierRows
+      .filter(row => row.minQuantity && row.price)
+      .map(row => ({ minQuantity: parseInt(row.minQuantity), price: row.price }));
+    saveTiersMutation.mutate({ id: tierProduct.id, tiers });
+  };
+
+  const createVariantMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      const options = Object.fromEntries(
+        variantOptionAxes.filter(axis => variantForm[axis].trim()).map(axis => [axis, variantForm[axis].trim()])
+      );
+      const formData = new FormData();
+      formData.append("sku", variantForm.sku);
+      formData.append("price", variantForm.price);
+      formData.append("stock", variantForm.stock);
+      formData.append("options", JSON.stringify(options));
+      if (variantImage) {
+        formData.append("image", variantImage);
+      }
+
+      const response = await fetch(`/api/products/${productId}/variants`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to create variant");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/products"] });
+      setVariantForm(emptyVariantForm);
+      setVariantImage(null);
+      toast({
+        title: "Success",
+        description: "Variant added successfully!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteVariantMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/variants/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/products"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createZoneMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/seller/delivery-zones", {
+        name: zoneForm.name,
+        region: zoneForm.region,
+        district: zoneForm.district.trim() || null,
+        rateType: zoneForm.rateType,
+        baseFee: zoneForm.baseFee || "0",
+        rate: zoneForm.rateType === "flat" ? null : zoneForm.rate,
+        freeDeliveryThreshold: zoneForm.freeDeliveryThreshold || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/delivery-zones"] });
+      setZoneForm(emptyZoneForm);
+      toast({
+        title: "Success",
+        description: "Delivery zone added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/seller/delivery-zones/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/delivery-zones"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createPickupLocationMutation = useMutation({
+    mutationFn: async () => {
+      const hours = Object.fromEntries(
+        weekdays.filter(day => openingHours[day].opens && openingHours[day].closes).map(day => [day, openingHours[day]]),
+      );
+      await apiRequest("POST", "/api/seller/pickup-locations", { ...pickupForm, openingHours: hours });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/pickup-locations"] });
+      setPickupForm(emptyPickupForm);
+      setOpeningHours(defaultOpeningHours);
+      toast({
+        title: "Success",
+        description: "Pickup location added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePickupLocationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/seller/pickup-locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/pickup-locations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const collectPickupMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/seller/pickups/collect", { code: pickupCode });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller/orders"] });
+      setPickupCode("");
+      toast({
+        title: "Order collected",
+        description: "The order is marked as collected.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const variantProduct = products?.find(product => product.id === variantProductId);
+
   const handleCreateProduct = () => {
     setEditingProduct(null);
     form.reset();
@@ -186,6 +452,11 @@ export default function SellerDashboard() {
       price: product.price,
       stock: product.stock.toString(),
       category: product.category,
+      unit: product.unit,
+      packSize: product.packSize ?? "",
+      packUnit: product.packUnit ?? "",
+      shippingWeight: product.shippingWeight ?? "",
+      shippingVolume: product.shippingVolume ?? "",
     });
     setImageFile(null);
     setShowProductDialog(true);
@@ -197,7 +468,9 @@ export default function SellerDashboard() {
     }
   };
 
-  const onSubmit = (data: ProductFormData) => {
+  const onSubmit = (formData: ProductFormData) => {
+    // A pack unit without a pack size means nothing, so it's dropped
+    const data = { ...formData, packUnit: formData.packSize ? formData.packUnit : "" };
     if (editingProduct) {
       updateProductMutation.mutate({ id: editingProduct.id, data });
     } else {
@@ -237,10 +510,24 @@ export default function SellerDashboard() {
             </div>
           </div>
           
-          <Button onClick={handleCreateProduct} data-testid="button-add-product">
-            <Plus className="w-5 h-5 mr-2" />
-            Add Product
-          </Button>
+          <div className="flex space-x-2">
+            {user?.role === "seller" && (
+              <>
+                <Button variant="outline" onClick={() => setShowPickupDialog(true)} data-testid="button-pickup-locations">
+                  <Warehouse className="w-5 h-5 mr-2" />
+                  Pickup
+                </Button>
+                <Button variant="outline" onClick={() => setShowZonesDialog(true)} data-testid="button-delivery-zones">
+                  <Truck className="w-5 h-5 mr-2" />
+                  Delivery Zones
+                </Button>
+              </>
+            )}
+            <Button onClick={handleCreateProduct} data-testid="button-add-product">
+              <Plus className="w-5 h-5 mr-2" />
+              Add Product
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -362,8 +649,15 @@ export default function SellerDashboard() {
                         <td className="py-3">
                           <Badge variant="secondary">{product.category}</Badge>
                         </td>
-                        <td className="py-3 font-semibold">${product.price}</td>
-                        <td className="py-3">{product.stock}</td>
+                        <td className="py-3 font-semibold">
+                          ${product.price}
+                          <span className="font-normal text-gray-500"> / {units[product.unit as UnitCode]?.label ?? product.unit}</span>
+                        </td>
+                        <td className="py-3">
+                          {product.variants.length > 0
+                            ? `${product.variants.reduce((sum, variant) => sum + variant.stock, 0)} (${product.variants.length} variants)`
+                            : product.stock}
+                        </td>
                         <td className="py-3">
                           <Badge variant={product.isActive ? "default" : "secondary"}>
                             {product.isActive ? "Active" : "Inactive"}
@@ -379,6 +673,22 @@ export default function SellerDashboard() {
                             >
                               <Edit className="w-4 h-4" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setVariantProductId(product.id)}
+                              data-testid={`button-variants-${product.id}`}
+                            >
+                              <Boxes className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditTiers(product)}
+                              data-testid={`button-tiers-${product.id}`}
+                            >
+                              <Layers className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="destructive"
                               size="sm"
@@ -462,6 +772,81 @@ export default function SellerDashboard() {
               </div>
             </div>
 
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="unit">Sold per</Label>
+                <Select value={form.watch("unit")} onValueChange={(value) => form.setValue("unit", value)}>
+                  <SelectTrigger id="unit" data-testid="select-product-unit">
+                    <SelectValue placeholder="Unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unitCodes.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {units[code].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="packSize">Pack size</Label>
+                <Input
+                  id="packSize"
+                  type="number"
+                  step="0.001"
+                  placeholder="e.g. 50"
+                  {...form.register("packSize")}
+                  data-testid="input-product-pack-size"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="packUnit">Pack unit</Label>
+                <Select value={form.watch("packUnit")} onValueChange={(value) => form.setValue("packUnit", value)}>
+                  <SelectTrigger id="packUnit" data-testid="select-product-pack-unit">
+                    <SelectValue placeholder="e.g. kg" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unitCodes.filter(code => units[code].dimension !== "package").map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {units[code].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.formState.errors.packUnit && (
+                  <p className="text-sm text-red-600 mt-1">{form.formState.errors.packUnit.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="shippingWeight">Shipping weight (kg)</Label>
+                <Input
+                  id="shippingWeight"
+                  type="number"
+                  step="0.001"
+                  placeholder="Per sale unit"
+                  {...form.register("shippingWeight")}
+                  data-testid="input-product-shipping-weight"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="shippingVolume">Shipping volume (m³)</Label>
+                <Input
+                  id="shippingVolume"
+                  type="number"
+                  step="0.001"
+                  placeholder="Per sale unit"
+                  {...form.register("shippingVolume")}
+                  data-testid="input-product-shipping-volume"
+                />
+              </div>
+            </div>
+
             <div>
               <Label htmlFor="category">Category</Label>
               <Select onValueChange={(value) => form.setValue("category", value)}>
@@ -512,6 +897,479 @@ export default function SellerDashboard() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Variants Dialog */}
+      <Dialog open={!!variantProduct} onOpenChange={(open) => !open && setVariantProductId(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Variants{variantProduct ? ` - ${variantProduct.name}` : ""}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {variantProduct?.variants.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No variants yet. Add one for each size, gauge, colour or grade you sell.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {variantProduct?.variants.map(variant => (
+                  <div
+                    key={variant.id}
+                    className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                    data-testid={`variant-${variant.id}`}
+                  >
+                    <div>
+                      <div className="font-medium text-gray-900">{formatVariantOptions(variant.options)}</div>
+                      <div className="text-gray-500">
+                        SKU {variant.sku} · ${variant.price} · {variant.stock} in stock
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteVariantMutation.mutate(variant.id)}
+                      disabled={deleteVariantMutation.isPending}
+                      data-testid={`button-delete-variant-${variant.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 pt-2 border-t">
+              {variantOptionAxes.map(axis => (
+                <div key={axis}>
+                  <Label htmlFor={`variant-${axis}`} className="capitalize">{axis}</Label>
+                  <Input
+                    id={`variant-${axis}`}
+                    value={variantForm[axis]}
+                    onChange={(e) => setVariantForm(form => ({ ...form, [axis]: e.target.value }))}
+                    data-testid={`input-variant-${axis}`}
+                  />
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="variant-sku">SKU</Label>
+                <Input
+                  id="variant-sku"
+                  value={variantForm.sku}
+                  onChange={(e) => setVariantForm(form => ({ ...form, sku: e.target.value }))}
+                  data-testid="input-variant-sku"
+                />
+              </div>
+              <div>
+                <Label htmlFor="variant-price">Price ($)</Label>
+                <Input
+                  id="variant-price"
+                  type="number"
+                  step="0.01"
+                  value={variantForm.price}
+                  onChange={(e) => setVariantForm(form => ({ ...form, price: e.target.value }))}
+                  data-testid="input-variant-price"
+                />
+              </div>
+              <div>
+                <Label htmlFor="variant-stock">Stock</Label>
+                <Input
+                  id="variant-stock"
+                  type="number"
+                  value={variantForm.stock}
+                  onChange={(e) => setVariantForm(form => ({ ...form, stock: e.target.value }))}
+                  data-testid="input-variant-stock"
+                />
+              </div>
+              <div>
+                <Label htmlFor="variant-image">Image</Label>
+                <Input
+                  id="variant-image"
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => setVariantImage(e.target.files?.[0] || null)}
+                  data-testid="input-variant-image"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setVariantProductId(null)}
+                data-testid="button-close-variants"
+              >
+                Close
+              </Button>
+              <Button
+                type="button"
+                onClick={() => variantProduct && createVariantMutation.mutate(variantProduct.id)}
+                disabled={createVariantMutation.isPending || !variantForm.sku || !variantForm.price}
+                data-testid="button-add-variant"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Variant
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Zones Dialog */}
+      <Dialog open={showZonesDialog} onOpenChange={setShowZonesDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Delivery Zones</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Without zones, your orders use the standard platform delivery rate. Once you add zones,
+              buyers outside them can't check out your products.
+            </p>
+
+            {deliveryZones && deliveryZones.length > 0 && (
+              <div className="space-y-2">
+                {deliveryZones.map((zone) => (
+                  <div key={zone.id} className="flex justify-between items-center p-3 border rounded-lg" data-testid={`zone-${zone.id}`}>
+                    <div>
+                      <div className="font-medium text-gray-900">{zone.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {zone.district ? `${zone.district}, ${zone.region}` : zone.region}
+                        {" · "}
+                        {rateTypeLabels[zone.rateType]}: ${zone.baseFee}
+                        {zone.rateType !== "flat" && ` + $${zone.rate} ${zone.rateType === "weight" ? "/kg" : "/m³"}`}
+                        {zone.freeDeliveryThreshold && ` · free over $${zone.freeDeliveryThreshold}`}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteZoneMutation.mutate(zone.id)}
+                      data-testid={`button-delete-zone-${zone.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="zone-name">Zone name</Label>
+                <Input
+                  id="zone-name"
+                  value={zoneForm.name}
+                  onChange={(e) => setZoneForm({ ...zoneForm, name: e.target.value })}
+                  placeholder="e.g. Greater Accra"
+                  data-testid="input-zone-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-region">Region</Label>
+                <Select value={zoneForm.region} onValueChange={(value) => setZoneForm({ ...zoneForm, region: value })}>
+                  <SelectTrigger id="zone-region" data-testid="select-zone-region">
+                    <SelectValue placeholder="Select region" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ghanaRegions.map((region) => (
+                      <SelectItem key={region} value={region}>
+                        {region}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="zone-district">District</Label>
+                <Input
+                  id="zone-district"
+                  value={zoneForm.district}
+                  onChange={(e) => setZoneForm({ ...zoneForm, district: e.target.value })}
+                  placeholder="Whole region"
+                  data-testid="input-zone-district"
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-rate-type">Charge</Label>
+                <Select value={zoneForm.rateType} onValueChange={(value) => setZoneForm({ ...zoneForm, rateType: value })}>
+                  <SelectTrigger id="zone-rate-type" data-testid="select-zone-rate-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(rateTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="zone-base-fee">Base fee ($)</Label>
+                <Input
+                  id="zone-base-fee"
+                  type="number"
+                  step="0.01"
+                  value={zoneForm.baseFee}
+                  onChange={(e) => setZoneForm({ ...zoneForm, baseFee: e.target.value })}
+                  data-testid="input-zone-base-fee"
+                />
+              </div>
+              {zoneForm.rateType !== "flat" && (
+                <div>
+                  <Label htmlFor="zone-rate">Rate ($ {zoneForm.rateType === "weight" ? "per kg" : "per m³"})</Label>
+                  <Input
+                    id="zone-rate"
+                    type="number"
+                    step="0.01"
+                    value={zoneForm.rate}
+                    onChange={(e) => setZoneForm({ ...zoneForm, rate: e.target.value })}
+                    data-testid="input-zone-rate"
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="zone-free-threshold">Free delivery over ($)</Label>
+                <Input
+                  id="zone-free-threshold"
+                  type="number"
+                  step="0.01"
+                  value={zoneForm.freeDeliveryThreshold}
+                  onChange={(e) => setZoneForm({ ...zoneForm, freeDeliveryThreshold: e.target.value })}
+                  placeholder="Optional"
+                  data-testid="input-zone-free-threshold"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end pt-2">
+              <Button
+                type="button"
+                onClick={() => createZoneMutation.mutate()}
+                disabled={!zoneForm.name || !zoneForm.region || createZoneMutation.isPending}
+                data-testid="button-add-zone"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Zone
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Pickup Dialog */}
+      <Dialog open={showPickupDialog} onOpenChange={setShowPickupDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Pickup at the Yard</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div>
+              <Label htmlFor="pickup-code">Hand over an order</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="pickup-code"
+                  value={pickupCode}
+                  onChange={(e) => setPickupCode(e.target.value.toUpperCase())}
+                  placeholder="Buyer's pickup code"
+                  data-testid="input-pickup-code"
+                />
+                <Button
+                  type="button"
+                  onClick={() => collectPickupMutation.mutate()}
+                  disabled={!pickupCode.trim() || collectPickupMutation.isPending}
+                  data-testid="button-collect-pickup"
+                >
+                  Mark Collected
+                </Button>
+              </div>
+            </div>
+
+            {pickupLocations && pickupLocations.length > 0 && (
+              <div className="space-y-2">
+                {pickupLocations.map((location) => (
+                  <div key={location.id} className="flex justify-between items-center p-3 border rounded-lg" data-testid={`pickup-location-${location.id}`}>
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {location.name}
+                        {!location.isActive && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                      </div>
+                      <div className="text-sm text-gray-500">{location.address}, {location.region}</div>
+                      <div className="text-sm text-gray-500">{formatOpeningHours(location.openingHours)}</div>
+                    </div>
+                    {location.isActive && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deletePickupLocationMutation.mutate(location.id)}
+                        data-testid={`button-delete-pickup-location-${location.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="pickup-name">Location name</Label>
+                  <Input
+                    id="pickup-name"
+                    value={pickupForm.name}
+                    onChange={(e) => setPickupForm({ ...pickupForm, name: e.target.value })}
+                    placeholder="e.g. Kasoa depot"
+                    data-testid="input-pickup-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="pickup-region">Region</Label>
+                  <Select value={pickupForm.region} onValueChange={(value) => setPickupForm({ ...pickupForm, region: value })}>
+                    <SelectTrigger id="pickup-region" data-testid="select-pickup-region">
+                      <SelectValue placeholder="Select region" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ghanaRegions.map((region) => (
+                        <SelectItem key={region} value={region}>
+                          {region}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="pickup-address">Address</Label>
+                <Textarea
+                  id="pickup-address"
+                  value={pickupForm.address}
+                  onChange={(e) => setPickupForm({ ...pickupForm, address: e.target.value })}
+                  placeholder="Street, landmark and GPS address"
+                  data-testid="input-pickup-address"
+                />
+              </div>
+              <div>
+                <Label>Opening hours</Label>
+                <div className="space-y-2 mt-1">
+                  {weekdays.map((day) => (
+                    <div key={day} className="grid grid-cols-[3rem_1fr_1fr] gap-2 items-center">
+                      <span className="text-sm capitalize text-gray-600">{day}</span>
+                      <Input
+                        type="time"
+                        value={openingHours[day].opens}
+                        onChange={(e) => setOpeningHours({ ...openingHours, [day]: { ...openingHours[day], opens: e.target.value } })}
+                        data-testid={`input-opens-${day}`}
+                      />
+                      <Input
+                        type="time"
+                        value={openingHours[day].closes}
+                        onChange={(e) => setOpeningHours({ ...openingHours, [day]: { ...openingHours[day], closes: e.target.value } })}
+                        data-testid={`input-closes-${day}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  onClick={() => createPickupLocationMutation.mutate()}
+                  disabled={!pickupForm.name || !pickupForm.address || !pickupForm.region || createPickupLocationMutation.isPending}
+                  data-testid="button-add-pickup-location"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Location
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Pricing Dialog */}
+      <Dialog open={!!tierProduct} onOpenChange={(open) => !open && setTierProduct(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Bulk Pricing{tierProduct ? ` - ${tierProduct.name}` : ""}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Orders below the smallest tier pay the list price of ${tierProduct?.price}.
+            </p>
+
+            {tierRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                <div>
+                  <Label htmlFor={`tier-min-${index}`}>From quantity</Label>
+                  <Input
+                    id={`tier-min-${index}`}
+                    type="number"
+                    min="1"
+                    value={row.minQuantity}
+                    onChange={(e) => updateTierRow(index, "minQuantity", e.target.value)}
+                    data-testid={`input-tier-min-${index}`}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`tier-price-${index}`}>Unit price ($)</Label>
+                  <Input
+                    id={`tier-price-${index}`}
+                    type="number"
+                    step="0.01"
+                    value={row.price}
+                    onChange={(e) => updateTierRow(index, "price", e.target.value)}
+                    data-testid={`input-tier-price-${index}`}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setTierRows(rows => rows.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-tier-${index}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setTierRows(rows => [...rows, { minQuantity: "", price: "" }])}
+              data-testid="button-add-tier"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Tier
+            </Button>
+
+            <div className="flex justify-end space-x-4 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setTierProduct(null)}
+                data-testid="button-cancel-tiers"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSaveTiers}
+                disabled={saveTiersMutation.isPending}
+                data-testid="button-save-tiers"
+              >
+                Save Pricing
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,149 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import Navbar from "@/components/navbar";
+import ProductCard from "@/components/product-card";
+import { StarRating } from "@/components/product-reviews";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Store, MapPin, Calendar } from "lucide-react";
+import type { Product, ProductVariant } from "@shared/schema";
+
+interface Storefront {
+  id: string;
+  businessName: string;
+  location: string | null;
+  joinedAt: string | null;
+  rating: number | null;
+  reviewCount: number;
+  score: number | null;
+  fulfillmentRate: number | null;
+  onTimeRate: number | null;
+  responseTimeHours: number | null;
+  activeProductCount: number;
+  products: (Product & { variants: ProductVariant[]; rating: number | null; reviewCount: number })[];
+}
+
+function percent(rate: number | null): string {
+  return rate === null ? "No orders yet" : `${Math.round(rate * 100)}%`;
+}
+
+function formatResponseTime(hours: number | null): string {
+  if (hours === null) return "No quotes yet";
+  if (hours < 1) return "Within an hour";
+  if (hours < 48) return `About ${Math.round(hours)} hours`;
+  return `About ${Math.round(hours / 24)} days`;
+}
+
+// A seller's public page: who they are, how reliably they deliver, and what they're selling
+export default function SellerStorefrontPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: storefront, isLoading, error } = useQuery<Storefront>({
+    queryKey: ["/api/sellers", id],
+  });
+
+  const metrics = storefront ? [
+    { label: "Orders fulfilled", value: percent(storefront.fulfillmentRate) },
+    { label: "Delivered on time", value: percent(storefront.onTimeRate) },
+    { label: "Quote response", value: formatResponseTime(storefront.responseTimeHours) },
+    { label: "Active products", value: String(storefront.activeProductCount) },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center space-x-4 mb-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => window.history.back()}
+            className="flex items-center"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : error || !storefront ? (
+          <Card>
+            <CardContent className="py-16 text-center text-gray-500">
+              <Store className="w-10 h-10 mx-auto mb-2 text-gray-400" />
+              Seller not found
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="mb-8">
+              <CardContent className="p-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h1 className="text-3xl font-bold text-gray-900" data-testid="text-seller-name">{storefront.businessName}</h1>
+                    <div className="flex items-center space-x-4 text-sm text-gray-600 mt-2">
+                      {storefront.location && (
+                        <span className="flex items-center">
+                          <MapPin className="w-4 h-4 mr-1" />
+                          {storefront.location}
+                        </span>
+                      )}
+                      {storefront.joinedAt && (
+                        <span className="flex items-center">
+                          <Calendar className="w-4 h-4 mr-1" />
+                          Selling since {new Date(storefront.joinedAt).toLocaleDateString("en-GB", { month: "long", year: "numeric" })}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 mt-2 text-sm text-gray-600">
+                      {storefront.rating !== null ? (
+                        <>
+                          <StarRating rating={storefront.rating} />
+                          <span>{storefront.rating.toFixed(1)} from {storefront.reviewCount} {storefront.reviewCount === 1 ? "review" : "reviews"}</span>
+                        </>
+                      ) : (
+                        <span>No reviews yet</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm text-gray-500">Reputation</div>
+                    {storefront.score !== null ? (
+                      <div className="text-3xl font-bold text-primary" data-testid="text-seller-score">{storefront.score}</div>
+                    ) : (
+                      <Badge variant="outline">New seller</Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+                  {metrics.map(metric => (
+                    <div key={metric.label} className="p-3 border rounded-lg">
+                      <div className="text-xs text-gray-500">{metric.label}</div>
+                      <div className="text-lg font-semibold text-gray-900">{metric.value}</div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Products</h2>
+            {storefront.products.length === 0 ? (
+              <p className="text-gray-500">This seller has nothing listed right now</p>
+            ) : (
+              <div className="grid lg:grid-cols-4 md:grid-cols-2 gap-6" data-testid="storefront-products">
+                {storefront.products.map(product => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
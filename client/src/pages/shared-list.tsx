@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import Navbar from "@/components/navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ListChecks } from "lucide-react";
+import type { User } from "@shared/schema";
+import { listItemName, listItemUnit, type SavedListDetails } from "@/pages/saved-lists";
+
+interface SharedList extends SavedListDetails {
+  owner: Pick<User, "username" | "businessName"> | null;
+}
+
+// Read-only view of a list someone shared by link, e.g. a client's plan sent to their contractor
+export default function SharedListPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: list, isLoading, error } = useQuery<SharedList>({
+    queryKey: ["/api/shared-lists", token],
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : error || !list ? (
+          <Card>
+            <CardContent className="py-16 text-center text-gray-500">
+              <ListChecks className="w-10 h-10 mx-auto mb-2 text-gray-400" />
+              This list isn't shared anymore
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{list.name}</CardTitle>
+              {list.owner && (
+                <p className="text-sm text-gray-600 mt-1">
+                  Shared by {list.owner.businessName || list.owner.username}
+                </p>
+              )}
+              {list.description && <p className="text-sm text-gray-600 mt-1">{list.description}</p>}
+            </CardHeader>
+            <CardContent>
+              {list.items.length === 0 ? (
+                <p className="text-sm text-gray-500">This list is empty</p>
+              ) : (
+                <div className="space-y-3">
+                  {list.items.map(item => (
+                    <div key={item.id} className="flex justify-between items-center p-3 border rounded-lg" data-testid={`shared-list-item-${item.id}`}>
+                      <div>
+                        <div className="font-medium text-gray-900">{listItemName(item)}</div>
+                        {item.note && <div className="text-sm text-gray-500">{item.note}</div>}
+                        {!item.product.isActive && <Badge variant="destructive" className="mt-1">No longer available</Badge>}
+                      </div>
+                      <div className="text-right">
+                        <div className="font-semibold text-gray-900">{item.quantity} {listItemUnit(item)}</div>
+                        <div className="text-sm text-gray-500">${item.variant?.price ?? item.product.price} each</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -29,7 +29,9 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Drivers and admins are made by an admin, so signing up only offers the trading roles
 const registerSchema = insertUserSchema.extend({
+  role: z.enum(["buyer", "seller", "client"]).default("buyer"),
   confirmPassword: z.string(),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -0,0 +1,121 @@
+import type { CartItem, Product, ProductVariant } from "@shared/schema";
+import { storage, type SavedListDetails } from "./storage";
+
+export type CartProblemType = "unavailable" | "price_changed" | "insufficient_stock";
+
+export interface CartProblem {
+  cartItemId: string;
+  productId: string;
+  variantId: string | null;
+  type: CartProblemType;
+  message: string;
+  previousPrice?: string;
+  currentPrice?: string;
+  requested?: number;
+  available?: number;
+}
+
+export interface CartValidation {
+  valid: boolean;
+  problems: CartProblem[];
+}
+
+// The price a cart line is held at: the variant's price, otherwise the product's list price
+export function cartUnitPrice(product: Product, variant?: ProductVariant): string {
+  return variant?.price ?? product.price;
+}
+
+/**
+ * Checks every line in a buyer's cart against the current listings. A line can have more than
+ * one problem, e.g. a price change and too little stock; checkout is blocked while any remain.
+ */
+export async function validateCart(userId: string): Promise<CartValidation> {
+  const items = await storage.getCartItems(userId);
+  const productIds = items.map(item => item.productId);
+  const products = await storage.getProductsByIds(productIds);
+  const variants = await storage.getVariantsByProducts(productIds);
+  const problems: CartProblem[] = [];
+
+  for (const item of items) {
+    const line = { cartItemId: item.id, productId: item.productId, variantId: item.variantId };
+    const product = products.find(candidate => candidate.id === item.productId);
+    const productVariants = variants.filter(variant => variant.productId === item.productId && variant.isActive);
+    const variant = item.variantId ? productVariants.find(candidate => candidate.id === item.variantId) : undefined;
+
+    if (!product || !product.isActive || (item.variantId && !variant)) {
+      problems.push({ ...line, type: "unavailable", message: "This item is no longer available" });
+      continue;
+    }
+    if (!item.variantId && productVariants.length > 0) {
+      problems.push({ ...line, type: "unavailable", message: `Choose an option for ${product.name}` });
+      continue;
+    }
+
+    const currentPrice = cartUnitPrice(product, variant);
+    if (item.price !== null && parseFloat(item.price) !== parseFloat(currentPrice)) {
+      problems.push({
+        ...line,
+        type: "price_changed",
+        message: `Price changed from ${item.price} to ${currentPrice}`,
+        previousPrice: item.price,
+        currentPrice,
+      });
+    }
+
+    const available = variant?.stock ?? product.stock;
+    if (item.quantity > available) {
+      problems.push({
+        ...line,
+        type: "insufficient_stock",
+        message: available === 0 ? "Out of stock" : `Only ${available} left in stock`,
+        requested: item.quantity,
+        available,
+      });
+    }
+  }
+
+  return { valid: problems.length === 0, problems };
+}
+
+export interface SkippedListItem {
+  listItemId: string;
+  productId: string;
+  message: string;
+}
+
+/**
+ * Copies every line of a saved list into the buyer's cart at its target quantity. Lines whose
+ * listing has gone away are skipped and reported; the list itself is left as it was.
+ */
+export async function addSavedListToCart(
+  userId: string,
+  list: SavedListDetails,
+): Promise<{ added: CartItem[]; skipped: SkippedListItem[] }> {
+  const variants = await storage.getVariantsByProducts(list.items.map(item => item.productId));
+  const added: CartItem[] = [];
+  const skipped: SkippedListItem[] = [];
+
+  for (const item of list.items) {
+    const line = { listItemId: item.id, productId: item.productId };
+    const hasVariants = variants.some(variant => variant.productId === item.productId && variant.isActive);
+
+    if (!item.product.isActive || (item.variantId && !item.variant?.isActive)) {
+      skipped.push({ ...line, message: `${item.product.name} is no longer available` });
+      continue;
+    }
+    if (!item.variantId && hasVariants) {
+      skipped.push({ ...line, message: `Choose an option for ${item.product.name}` });
+      continue;
+    }
+
+    added.push(await storage.addToCart({
+      userId,
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      price: cartUnitPrice(item.product, item.variant ?? undefined),
+    }));
+  }
+
+  return { added, skipped };
+}
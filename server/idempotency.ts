@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Long enough to cover a client's retries; after this the key can be reused for a new request
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+function hashRequest(req: any) {
+  return createHash("sha256")
+    .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? {})}`)
+    .digest("hex");
+}
+
+/**
+ * Honours an Idempotency-Key header on create routes. The first request with a key runs
+ * normally and a successful response is stored; retries with the same key and payload get
+ * that response replayed, and a different payload under the same key is rejected. Any other
+ * outcome frees the key so the client can fix the request or retry. Keys expire after a day.
+ * Must run after requireAuth since keys are scoped per user.
+ */
+export function idempotent(req: any, res: any, next: any) {
+  const key = req.get("Idempotency-Key");
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > 255) {
+    return res.status(400).json({ error: "Idempotency-Key must be at most 255 characters" });
+  }
+
+  const requestHash = hashRequest(req);
+
+  (async () => {
+    const expiredBefore = new Date(Date.now() - KEY_TTL_MS);
+    const reserved = await storage.reserveIdempotencyKey(req.user.id, key, requestHash, expiredBefore);
+
+    if (!reserved) {
+      const existing = await storage.getIdempotencyKey(req.user.id, key);
+      if (!existing) {
+        return res.status(409).json({ error: "Request with this Idempotency-Key is being retried, try again" });
+      }
+      if (existing.requestHash !== requestHash) {
+        return res.status(422).json({ error: "Idempotency-Key was already used with a different request" });
+      }
+      if (existing.responseStatus === null) {
+        return res.status(409).json({ error: "A request with this Idempotency-Key is still in progress" });
+      }
+
+      res.set("Idempotent-Replayed", "true");
+      return res.status(existing.responseStatus).json(existing.responseBody);
+    }
+
+    // Capture a successful JSON response so it can be replayed; everything else, including handlers
+    // that throw or reply without JSON, frees the key once the response is over
+    let stored = false;
+    const originalJson = res.json;
+    res.json = function (body: unknown) {
+      if (res.statusCode >= 200 && res.statusCode < 300 && !stored) {
+        stored = true;
+        storage.saveIdempotentResponse(reserved.id, res.statusCode, body)
+          .catch(() => storage.releaseIdempotencyKey(reserved.id))
+          .catch((error) => log(`Failed to store idempotent response: ${error.message}`, "idempotency"));
+      }
+      return originalJson.call(this, body);
+    };
+    res.on("close", () => {
+      if (!stored) {
+        storage.releaseIdempotencyKey(reserved.id)
+          .catch((error) => log(`Failed to release idempotency key: ${error.message}`, "idempotency"));
+      }
+    });
+
+    next();
+  })().catch(next);
+}
@@ -4,12 +4,23 @@ dotenv.config(); // load .env first
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startRecurringOrderScheduler } from "./recurring-orders";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
+
 const app = express();
 
-// Parse JSON and URL-encoded bodies
-app.use(express.json());
+// Parse JSON and URL-encoded bodies, keeping the raw JSON for webhook signature checks
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Request logging middleware
@@ -64,6 +75,7 @@ app.use((req, res, next) => {
     const port = parseInt(process.env.PORT || "5000", 10);
     server.listen(port, () => {
       log(`Server is running on port ${port} in ${process.env.NODE_ENV} mode`);
+      startRecurringOrderScheduler();
     });
   } catch (err) {
     console.error("Failed to start server:", err);
@@ -0,0 +1,169 @@
+import PDFDocument from "pdfkit";
+import { type Invoice, type Order, type Payment, type PaymentMethod, type User } from "@shared/schema";
+import { GHANA_TAX_RATES } from "./pricing";
+import type { OrderLine } from "./storage";
+
+export interface InvoiceData {
+  invoice: Invoice;
+  order: Order;
+  buyer: Pick<User, "username" | "email" | "businessName">;
+  items: OrderLine[];
+  payments: Payment[];
+  // Set on a seller's copy: the items are only theirs, and these replace the order's totals
+  sellerPart?: { subtotal: string; shippingFee: string };
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  mtn_momo: "MTN Mobile Money",
+  telecel_cash: "Telecel Cash",
+  airteltigo_money: "AirtelTigo Money",
+  card: "Debit / Credit Card",
+};
+
+const PAGE_MARGIN = 50;
+// Left edge of each line item column; the last three are right-aligned against the next edge
+const COLUMNS = { item: 50, seller: 250, quantity: 370, unitPrice: 410, amount: 480, end: 545 };
+
+export function formatInvoiceNumber(number: number): string {
+  return `INV-${String(number).padStart(6, "0")}`;
+}
+
+function money(amount: string | number): string {
+  return `GHS ${(typeof amount === "string" ? parseFloat(amount) : amount).toFixed(2)}`;
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" }) : "";
+}
+
+function paymentStatusLine(payments: Payment[]): string {
+  const paid = payments.find(payment => payment.status === "succeeded");
+  if (paid) {
+    const reference = paid.providerReference ? `, ref ${paid.providerReference}` : "";
+    return `PAID by ${PAYMENT_METHOD_LABELS[paid.method]} on ${formatDate(paid.updatedAt)}${reference}`;
+  }
+  // Payments come newest first, so this is the buyer's latest attempt
+  const latest = payments[0];
+  return latest?.status === "pending" ? "PAYMENT PENDING" : "UNPAID";
+}
+
+/** Lays out an order's invoice on A4 pages and resolves with the finished PDF. */
+export function renderInvoicePdf({ invoice, order, buyer, items, payments, sellerPart }: InvoiceData): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Starts a new page when the next block wouldn't fit; returns whether it did
+  const ensureSpace = (height: number) => {
+    if (doc.y + height <= doc.page.height - PAGE_MARGIN) {
+      return false;
+    }
+    doc.addPage();
+    return true;
+  };
+
+  // Header
+  doc.font("Helvetica-Bold").fontSize(20).text("INVOICE", PAGE_MARGIN, PAGE_MARGIN);
+  doc.font("Helvetica").fontSize(10)
+    .text(`Invoice number: ${formatInvoiceNumber(invoice.number)}`)
+    .text(`Issued: ${formatDate(invoice.issuedAt)}`)
+    .text(`Order: ${order.id}`)
+    .text(`Order date: ${formatDate(order.createdAt)}`)
+    .text(`Order status: ${order.status}`);
+  if (sellerPart) {
+    doc.text("Seller copy: lists only this seller's part of the order");
+  }
+  doc.moveDown();
+
+  // Parties
+  const partiesTop = doc.y;
+  doc.font("Helvetica-Bold").text("Bill to", PAGE_MARGIN, partiesTop);
+  doc.font("Helvetica")
+    .text(buyer.businessName || buyer.username)
+    .text(buyer.email)
+    .text(order.shippingAddress, { width: 230 });
+  const buyerBottom = doc.y;
+
+  const sellers = new Map(items.map(item => [item.seller.id, item.seller]));
+  doc.font("Helvetica-Bold").text(sellers.size === 1 ? "Seller" : "Sellers", 310, partiesTop);
+  doc.font("Helvetica");
+  for (const seller of Array.from(sellers.values())) {
+    doc.text(`${seller.name} <${seller.email}>`, 310, doc.y, { width: 235 });
+  }
+  doc.y = Math.max(buyerBottom, doc.y);
+  doc.moveDown(2);
+
+  // Line items
+  const drawHeaderRow = () => {
+    const top = doc.y;
+    doc.font("Helvetica-Bold").fontSize(9);
+    doc.text("Item", COLUMNS.item, top);
+    doc.text("Seller", COLUMNS.seller, top);
+    doc.text("Qty", COLUMNS.quantity, top, { width: COLUMNS.unitPrice - COLUMNS.quantity - 5, align: "right" });
+    doc.text("Unit price", COLUMNS.unitPrice, top, { width: COLUMNS.amount - COLUMNS.unitPrice - 5, align: "right" });
+    doc.text("Amount", COLUMNS.amount, top, { width: COLUMNS.end - COLUMNS.amount, align: "right" });
+    doc.moveTo(PAGE_MARGIN, doc.y + 2).lineTo(COLUMNS.end, doc.y + 2).stroke();
+    doc.moveDown(0.5);
+    doc.font("Helvetica").fontSize(9);
+  };
+
+  drawHeaderRow();
+  for (const item of items) {
+    const { name } = item.product;
+    const nameHeight = doc.heightOfString(name, { width: COLUMNS.seller - COLUMNS.item - 10 });
+    if (ensureSpace(nameHeight + 6)) {
+      drawHeaderRow();
+    }
+
+    const top = doc.y;
+    doc.text(name, COLUMNS.item, top, { width: COLUMNS.seller - COLUMNS.item - 10 });
+    doc.text(item.seller.name, COLUMNS.seller, top, { width: COLUMNS.quantity - COLUMNS.seller - 10 });
+    doc.text(String(item.quantity), COLUMNS.quantity, top, { width: COLUMNS.unitPrice - COLUMNS.quantity - 5, align: "right" });
+    doc.text(money(item.price), COLUMNS.unitPrice, top, { width: COLUMNS.amount - COLUMNS.unitPrice - 5, align: "right" });
+    doc.text(money(parseFloat(item.price) * item.quantity), COLUMNS.amount, top, { width: COLUMNS.end - COLUMNS.amount, align: "right" });
+    doc.y = Math.max(top + nameHeight, doc.y) + 4;
+  }
+  doc.moveTo(PAGE_MARGIN, doc.y).lineTo(COLUMNS.end, doc.y).stroke();
+  doc.moveDown();
+
+  // Totals and the Ghana tax breakdown, as stored on the order when it was placed; a seller's copy
+  // has only their fulfillment's figures, since taxes and discounts are worked out on the whole order
+  const percent = (rate: number) => `${(rate * 100).toFixed(1).replace(/\.0$/, "")}%`;
+  const totals: [string, string][] = [["Subtotal", money(sellerPart?.subtotal ?? order.subtotal)]];
+  if (sellerPart) {
+    totals.push(["Shipping", money(sellerPart.shippingFee)]);
+  } else {
+    if (parseFloat(order.discountTotal) > 0) {
+      totals.push(["Discounts", `-${money(order.discountTotal)}`]);
+    }
+    totals.push(
+      [`NHIL (${percent(GHANA_TAX_RATES.nhil)})`, money(order.nhil)],
+      [`GETFund levy (${percent(GHANA_TAX_RATES.getfund)})`, money(order.getfundLevy)],
+      [`COVID-19 levy (${percent(GHANA_TAX_RATES.covid)})`, money(order.covidLevy)],
+      [`VAT (${percent(GHANA_TAX_RATES.vat)})`, money(order.vat)],
+      ["Shipping", money(order.shippingFee)],
+    );
+  }
+  const total = sellerPart ? parseFloat(sellerPart.subtotal) + parseFloat(sellerPart.shippingFee) : order.total;
+
+  ensureSpace((totals.length + 3) * 14);
+  for (const [label, value] of totals) {
+    const top = doc.y;
+    doc.text(label, COLUMNS.quantity - 60, top, { width: COLUMNS.amount - COLUMNS.quantity + 55 });
+    doc.text(value, COLUMNS.amount, top, { width: COLUMNS.end - COLUMNS.amount, align: "right" });
+  }
+  const totalTop = doc.y + 4;
+  doc.font("Helvetica-Bold").fontSize(11);
+  doc.text(sellerPart ? "Seller total" : "Total", COLUMNS.quantity - 60, totalTop);
+  doc.text(money(total), COLUMNS.amount - 20, totalTop, { width: COLUMNS.end - COLUMNS.amount + 20, align: "right" });
+  doc.moveDown(2);
+
+  doc.fontSize(10).text(paymentStatusLine(payments), PAGE_MARGIN, doc.y);
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,79 @@
+import type { CommissionRule } from "@shared/schema";
+
+export const DEFAULT_COMMISSION_RATE = parseFloat(process.env.PLATFORM_COMMISSION_RATE || "0.10");
+
+// Debits are positive and credits negative, so a seller's payable balance is a credit (negative) sum
+export const LEDGER_ACCOUNTS = {
+  buyerFunds: "buyer_funds", // money collected from buyers, held by the platform
+  sellerPayable: "seller_payable", // what the platform owes each seller
+  platformCommission: "platform_commission", // platform revenue
+  platformPromotions: "platform_promotions", // discounts the platform funded on sellers' sales
+  payoutsDisbursed: "payouts_disbursed", // money sent out to sellers
+} as const;
+
+export interface LedgerEntryInput {
+  account: string;
+  sellerId?: string;
+  amountCents: number;
+}
+
+export interface LineDiscount {
+  cents: number;
+  sellerFunded: boolean;
+}
+
+export function toCents(amount: number | string) {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+export function fromCents(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+export function resolveCommissionRate(rules: CommissionRule[], sellerId: string, category: string): number {
+  const sellerRule = rules.find(rule => rule.sellerId === sellerId && !rule.category);
+  const sellerCategoryRule = rules.find(rule => rule.sellerId === sellerId && rule.category === category);
+  const categoryRule = rules.find(rule => !rule.sellerId && rule.category === category);
+  const rule = sellerCategoryRule ?? sellerRule ?? categoryRule;
+  return rule ? parseFloat(rule.rate) : DEFAULT_COMMISSION_RATE;
+}
+
+// Buyer funds for a line split into the seller's earnings and the platform's commission. A seller's own
+// promotion comes out of their earnings; a platform promotion is the platform's cost, and the seller is
+// still paid on the full price.
+export function buildSaleEntries(
+  sellerId: string,
+  grossCents: number,
+  rate: number,
+  discount: LineDiscount = { cents: 0, sellerFunded: false },
+): LedgerEntryInput[] {
+  const paidCents = grossCents - discount.cents;
+  const earningsCents = discount.sellerFunded ? paidCents : grossCents;
+  const commissionCents = Math.round(earningsCents * rate);
+  const entries: LedgerEntryInput[] = [
+    { account: LEDGER_ACCOUNTS.buyerFunds, amountCents: paidCents },
+    { account: LEDGER_ACCOUNTS.sellerPayable, sellerId, amountCents: -(earningsCents - commissionCents) },
+    { account: LEDGER_ACCOUNTS.platformCommission, amountCents: -commissionCents },
+  ];
+  if (!discount.sellerFunded && discount.cents > 0) {
+    entries.push({ account: LEDGER_ACCOUNTS.platformPromotions, amountCents: discount.cents });
+  }
+  return entries;
+}
+
+// A refund reverses the sale entries for the refunded quantity at the rate charged on the sale
+export function buildRefundEntries(
+  sellerId: string,
+  grossCents: number,
+  rate: number,
+  discount?: LineDiscount,
+): LedgerEntryInput[] {
+  return buildSaleEntries(sellerId, grossCents, rate, discount).map(entry => ({ ...entry, amountCents: -entry.amountCents }));
+}
+
+export function buildPayoutEntries(sellerId: string, amountCents: number): LedgerEntryInput[] {
+  return [
+    { account: LEDGER_ACCOUNTS.sellerPayable, sellerId, amountCents },
+    { account: LEDGER_ACCOUNTS.payoutsDisbursed, amountCents: -amountCents },
+  ];
+}
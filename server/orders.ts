@@ -0,0 +1,169 @@
+import type { GhanaRegion, Order, PickupLocation } from "@shared/schema";
+import { storage } from "./storage";
+import { cartUnitPrice } from "./cart";
+import { buildQuote, quoteToOrderTotals, type QuoteLineInput } from "./pricing";
+import { resolvePromotions } from "./promotions";
+import { quoteShipping, toFulfillmentShipping } from "./shipping";
+
+export interface OrderRequestItem {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  price?: string | null; // the price the buyer saw, e.g. when adding to their cart; a change since is refused
+}
+
+export interface OrderRequest {
+  items: OrderRequestItem[];
+  promotionCode?: string;
+  shippingAddress?: string;
+  shippingRegion?: GhanaRegion;
+  shippingDistrict?: string;
+  pickupLocationIds?: string[];
+}
+
+// Thrown by placeOrder when the request itself is wrong, with a message safe to show the buyer
+export class OrderRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderRequestError";
+  }
+}
+
+// Loads every line's product and variant in two queries; products with active variants must be bought as one of them
+export async function loadQuoteLines(items: OrderRequestItem[]): Promise<QuoteLineInput[] | { error: string }> {
+  const productIds = items.map(item => item.productId);
+  const products = await storage.getProductsByIds(productIds);
+  const variants = (await storage.getVariantsByProducts(productIds)).filter(variant => variant.isActive);
+
+  const lines: QuoteLineInput[] = [];
+  for (const item of items) {
+    const product = products.find(candidate => candidate.id === item.productId);
+    if (!product || product.archivedAt) {
+      return { error: `Product ${item.productId} not found` };
+    }
+
+    const productVariants = variants.filter(variant => variant.productId === product.id);
+    if (!item.variantId) {
+      if (productVariants.length > 0) {
+        return { error: `Choose an option for ${product.name}` };
+      }
+      lines.push({ product, quantity: item.quantity });
+      continue;
+    }
+
+    const variant = productVariants.find(candidate => candidate.id === item.variantId);
+    if (!variant) {
+      return { error: `Variant ${item.variantId} not found for ${product.name}` };
+    }
+    lines.push({ product, variant, quantity: item.quantity });
+  }
+  return lines;
+}
+
+export async function attachPriceTiers(lines: QuoteLineInput[]) {
+  const tiers = await storage.getPriceTiers(lines.map(line => line.product.id));
+  for (const line of lines) {
+    line.tiers = tiers.filter(tier => tier.productId === line.product.id);
+  }
+}
+
+// The yards the buyer chose to collect from: active, belonging to a seller on the order, one per seller
+export async function loadPickupLocations(
+  lines: QuoteLineInput[],
+  ids: string[] = [],
+): Promise<PickupLocation[] | { error: string }> {
+  const locations = await storage.getPickupLocationsByIds(ids);
+  const sellerIds = new Set(lines.map(line => line.product.sellerId));
+  for (const id of ids) {
+    const location = locations.find(candidate => candidate.id === id);
+    if (!location || !location.isActive || !sellerIds.has(location.sellerId)) {
+      return { error: `Pickup location ${id} not found` };
+    }
+  }
+  if (new Set(locations.map(location => location.sellerId)).size !== locations.length) {
+    return { error: "Choose one pickup location per seller" };
+  }
+  return locations;
+}
+
+/**
+ * Prices and stores an order the way checkout does: tier prices, promotions, per-seller shipping
+ * or pickup, and Ghana taxes. Besides OrderRequestError it lets the pricing and storage errors
+ * (PromotionError, ShippingError, InsufficientStockError, PromotionLimitError) through for the caller to report.
+ */
+export async function placeOrder(userId: string, request: OrderRequest): Promise<Order> {
+  if (request.items.length === 0) {
+    throw new OrderRequestError("Order must contain at least one item");
+  }
+  for (const item of request.items) {
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new OrderRequestError(`Invalid quantity for product ${item.productId}`);
+    }
+  }
+
+  const quoteLines = await loadQuoteLines(request.items);
+  if ("error" in quoteLines) {
+    throw new OrderRequestError(quoteLines.error);
+  }
+
+  // The submitted lines are checked as they stand, whether or not they match the buyer's cart
+  quoteLines.forEach((line, index) => {
+    if (!line.product.isActive) {
+      throw new OrderRequestError(`${line.product.name} is no longer available`);
+    }
+    const seenPrice = request.items[index].price;
+    const currentPrice = cartUnitPrice(line.product, line.variant);
+    if (seenPrice != null && parseFloat(seenPrice) !== parseFloat(currentPrice)) {
+      throw new OrderRequestError(`Price of ${line.product.name} changed from ${seenPrice} to ${currentPrice}`);
+    }
+  });
+  await attachPriceTiers(quoteLines);
+
+  const pickups = await loadPickupLocations(quoteLines, request.pickupLocationIds);
+  if ("error" in pickups) {
+    throw new OrderRequestError(pickups.error);
+  }
+
+  // quoteShipping insists on a region for any part of the order that isn't collected
+  const discounts = await resolvePromotions(userId, quoteLines, request.promotionCode);
+  const destination = request.shippingRegion
+    ? { region: request.shippingRegion, district: request.shippingDistrict }
+    : undefined;
+  const shipping = await quoteShipping(quoteLines, destination, pickups);
+  const quote = buildQuote(quoteLines, discounts, shipping);
+
+  // A buyer collecting everything needn't give an address, so the order records where they collect from
+  const collectingAll = shipping.every(entry => entry.pickupLocationId);
+  const shippingAddress = request.shippingAddress || (collectingAll
+    ? pickups.map(pickup => `Collect from ${pickup.name}, ${pickup.address}`).join("; ")
+    : undefined);
+  if (!shippingAddress) {
+    throw new OrderRequestError("Shipping address is required");
+  }
+
+  const orderData = {
+    userId,
+    ...quoteToOrderTotals(quote),
+    shippingAddress,
+    shippingRegion: request.shippingRegion ?? null,
+    shippingDistrict: request.shippingDistrict ?? null,
+    status: "pending" as const,
+  };
+
+  // Lines are stored at the tier price the quote charged, with their share of the promotion
+  const [promotion] = discounts;
+  const itemsWithPrices = quote.lines.map((line, index) => ({
+    productId: line.productId,
+    variantId: line.variantId,
+    quantity: line.quantity,
+    price: line.unitPrice.toFixed(2),
+    discount: (promotion?.lineDiscounts[index] ?? 0).toFixed(2),
+    sellerFundedDiscount: !!promotion?.sellerId,
+  }));
+
+  const redemptions = discounts.map(discount => ({
+    promotionId: discount.promotionId,
+    amount: discount.amount.toFixed(2),
+  }));
+  return storage.createOrder(orderData, itemsWithPrices, redemptions, toFulfillmentShipping(shipping));
+}
@@ -0,0 +1,102 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Payment, PaymentStatus } from "@shared/schema";
+import { PaymentProviderError, type PaymentProvider, type ProviderResult } from "./types";
+import { verifyHmacSignature } from "./signature";
+
+interface GatewayConfig {
+  name: string;
+  channel: string; // channel code the gateway uses for this network or card scheme
+  envPrefix: string; // e.g. MTN_MOMO reads MTN_MOMO_API_URL, MTN_MOMO_SECRET_KEY, MTN_MOMO_WEBHOOK_SECRET
+}
+
+const statusMap: Record<string, PaymentStatus> = {
+  success: "succeeded",
+  successful: "succeeded",
+  failed: "failed",
+  declined: "failed",
+  cancelled: "failed",
+  pending: "pending",
+  processing: "pending",
+};
+
+function toPaymentStatus(status: unknown): PaymentStatus {
+  return statusMap[String(status).toLowerCase()] ?? "pending";
+}
+
+// Gateways expect the international 233XXXXXXXXX format
+function normalizePhoneNumber(phoneNumber: string) {
+  const digits = phoneNumber.replace(/\D/g, "");
+  return digits.startsWith("0") ? `233${digits.slice(1)}` : digits;
+}
+
+/**
+ * Collects payments through a payment gateway that charges mobile money wallets and cards
+ * and reports the outcome to our webhook with an HMAC-SHA512 signature of the raw body.
+ */
+export class GatewayProvider implements PaymentProvider {
+  readonly name: string;
+
+  constructor(private config: GatewayConfig) {
+    this.name = config.name;
+  }
+
+  private env(key: string) {
+    return process.env[`${this.config.envPrefix}_${key}`] || "";
+  }
+
+  async initiate(payment: Payment): Promise<ProviderResult> {
+    const apiUrl = this.env("API_URL");
+    const secretKey = this.env("SECRET_KEY");
+    if (!apiUrl || !secretKey) {
+      throw new PaymentProviderError(`${this.name} payments are not configured`);
+    }
+
+    const response = await fetch(`${apiUrl}/charges`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        reference: payment.id,
+        amount: Math.round(parseFloat(payment.amount) * 100), // pesewas
+        currency: payment.currency,
+        channel: this.config.channel,
+        phoneNumber: payment.phoneNumber ? normalizePhoneNumber(payment.phoneNumber) : undefined,
+        callbackUrl: `${process.env.PUBLIC_URL || ""}/api/payments/webhooks/${this.name}`,
+      }),
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return {
+        status: "failed",
+        providerReference: payment.id,
+        message: payload.message || `Gateway responded with ${response.status}`,
+        payload,
+      };
+    }
+
+    return {
+      status: toPaymentStatus(payload.status),
+      providerReference: payload.reference || payment.id,
+      message: payload.message,
+      redirectUrl: payload.authorizationUrl,
+      payload,
+    };
+  }
+
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    return verifyHmacSignature(rawBody, headers["x-signature"], this.env("WEBHOOK_SECRET"), "sha512");
+  }
+
+  parseWebhook(body: any): ProviderResult {
+    const data = body?.data ?? {};
+    return {
+      status: toPaymentStatus(data.status),
+      providerReference: String(data.reference ?? ""),
+      message: data.message,
+      payload: body,
+    };
+  }
+}
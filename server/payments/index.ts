@@ -0,0 +1,145 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Order, Payment, PaymentMethod } from "@shared/schema";
+import { storage } from "../storage";
+import { GatewayProvider } from "./gateway";
+import { MockProvider } from "./mock";
+import { InvalidWebhookSignatureError, PaymentProviderError, type PaymentProvider, type ProviderResult } from "./types";
+
+export { InvalidWebhookSignatureError, PaymentProviderError } from "./types";
+
+const mockProvider = new MockProvider();
+
+const providers: Record<PaymentMethod, PaymentProvider> = {
+  mtn_momo: new GatewayProvider({ name: "mtn_momo", channel: "mtn", envPrefix: "MTN_MOMO" }),
+  telecel_cash: new GatewayProvider({ name: "telecel_cash", channel: "vod", envPrefix: "TELECEL_CASH" }),
+  airteltigo_money: new GatewayProvider({ name: "airteltigo_money", channel: "atl", envPrefix: "AIRTELTIGO_MONEY" }),
+  card: new GatewayProvider({ name: "card", channel: "card", envPrefix: "CARD" }),
+};
+
+// Development uses the mock provider unless PAYMENTS_MODE=live is set
+function useMockProvider() {
+  const mode = process.env.PAYMENTS_MODE || (process.env.NODE_ENV === "production" ? "live" : "mock");
+  return mode === "mock";
+}
+
+export function getPaymentProvider(method: PaymentMethod): PaymentProvider {
+  return useMockProvider() ? mockProvider : providers[method];
+}
+
+function getProviderByName(name: string): PaymentProvider | undefined {
+  if (name === mockProvider.name) {
+    return useMockProvider() ? mockProvider : undefined;
+  }
+  return Object.values(providers).find(provider => provider.name === name);
+}
+
+// A pending payment blocks starting another for the same order until the provider has had this long to settle it
+const PENDING_PAYMENT_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Why a successful payment can't be booked to the order's sellers, if it can't; such money is left for staff to refund
+async function findRefundReason(payment: Payment): Promise<string | undefined> {
+  const order = await storage.getOrder(payment.orderId);
+  if (!order || order.status === "cancelled") {
+    return "Order was cancelled before the payment arrived";
+  }
+
+  const otherPayments = await storage.getPaymentsByOrder(order.id);
+  if (otherPayments.some(other => other.id !== payment.id && other.status === "succeeded" && !other.refundReason)) {
+    return "Order was already paid by another payment";
+  }
+  return undefined;
+}
+
+async function applyProviderResult(payment: Payment, result: ProviderResult, source: string): Promise<Payment> {
+  await storage.createPaymentAttempt({
+    paymentId: payment.id,
+    source,
+    status: result.status,
+    providerReference: result.providerReference,
+    message: result.message,
+    payload: result.payload ?? null,
+  });
+
+  if (result.status === "pending") {
+    if (payment.providerReference === result.providerReference) {
+      return payment;
+    }
+    return (await storage.updatePayment(payment.id, { providerReference: result.providerReference })) ?? payment;
+  }
+
+  // Providers retry callbacks, so only the first final result settles the payment
+  const settled = await storage.settlePayment(payment.id, result.status, result.providerReference);
+  if (!settled) {
+    return (await storage.getPayment(payment.id)) ?? payment;
+  }
+
+  if (settled.status === "succeeded") {
+    const refundReason = await findRefundReason(settled);
+    if (refundReason) {
+      return (await storage.updatePayment(settled.id, { refundReason })) ?? settled;
+    }
+
+    await storage.recordOrderSale(settled.orderId);
+    const order = await storage.getOrder(settled.orderId);
+    if (order?.status === "pending") {
+      await storage.updateOrderStatus(order.id, "confirmed", settled.userId, `Payment ${settled.id} received`);
+    }
+
+    // Cancelled fulfillments stay off the sellers' ledger, but the buyer still paid for them
+    const fulfillments = await storage.getFulfillmentsByOrder(settled.orderId);
+    if (fulfillments.some(fulfillment => fulfillment.status === "cancelled")) {
+      const refundReason = "Part of the order was cancelled before the payment arrived";
+      return (await storage.updatePayment(settled.id, { refundReason })) ?? settled;
+    }
+  }
+
+  return settled;
+}
+
+export async function startPayment(
+  order: Order,
+  method: PaymentMethod,
+  phoneNumber?: string,
+): Promise<{ payment: Payment; redirectUrl?: string }> {
+  const provider = getPaymentProvider(method);
+  const payment = await storage.createPayment({
+    orderId: order.id,
+    userId: order.userId,
+    method,
+    provider: provider.name,
+    amount: order.total,
+    phoneNumber,
+  }, new Date(Date.now() - PENDING_PAYMENT_TIMEOUT_MS));
+
+  let result: ProviderResult;
+  try {
+    result = await provider.initiate(payment);
+  } catch (error) {
+    const message = error instanceof PaymentProviderError ? error.message : "Payment provider unavailable";
+    result = { status: "failed", providerReference: payment.id, message };
+  }
+
+  const updated = await applyProviderResult(payment, result, "initiate");
+  return { payment: updated, redirectUrl: result.redirectUrl };
+}
+
+export async function handlePaymentWebhook(
+  providerName: string,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders,
+  body: unknown,
+): Promise<Payment | undefined> {
+  const provider = getProviderByName(providerName);
+  if (!provider || !provider.verifySignature(rawBody, headers)) {
+    throw new InvalidWebhookSignatureError();
+  }
+
+  const result = provider.parseWebhook(body);
+  const payment = await storage.getPaymentByReference(provider.name, result.providerReference)
+    ?? await storage.getPayment(result.providerReference);
+  if (!payment || payment.provider !== provider.name) {
+    return undefined;
+  }
+
+  return applyProviderResult(payment, result, "webhook");
+}
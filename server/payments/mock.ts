@@ -0,0 +1,40 @@
+import type { IncomingHttpHeaders } from "http";
+import { randomUUID } from "crypto";
+import { paymentStatusEnum, type Payment, type PaymentStatus } from "@shared/schema";
+import type { PaymentProvider, ProviderResult } from "./types";
+import { verifyHmacSignature } from "./signature";
+
+export const MOCK_WEBHOOK_SECRET = process.env.PAYMENTS_MOCK_WEBHOOK_SECRET || "mock-webhook-secret";
+
+/**
+ * Local stand-in for every payment method. Settles immediately with PAYMENTS_MOCK_OUTCOME
+ * (succeeded by default); set it to "pending" to settle later by posting
+ * { reference, status } to /api/payments/webhooks/mock signed with MOCK_WEBHOOK_SECRET.
+ */
+export class MockProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  async initiate(payment: Payment): Promise<ProviderResult> {
+    const outcome = (process.env.PAYMENTS_MOCK_OUTCOME || "succeeded") as PaymentStatus;
+    return {
+      status: outcome,
+      providerReference: `mock_${randomUUID()}`,
+      message: outcome === "failed" ? "Mock payment declined" : undefined,
+      payload: { method: payment.method, amount: payment.amount },
+    };
+  }
+
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    return verifyHmacSignature(rawBody, headers["x-signature"], MOCK_WEBHOOK_SECRET);
+  }
+
+  parseWebhook(body: any): ProviderResult {
+    const status = paymentStatusEnum.enumValues.includes(body?.status) ? body.status : "pending";
+    return {
+      status,
+      providerReference: String(body?.reference ?? ""),
+      message: body?.message,
+      payload: body,
+    };
+  }
+}
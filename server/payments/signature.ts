@@ -0,0 +1,20 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export function signPayload(rawBody: Buffer, secret: string, algorithm: "sha256" | "sha512" = "sha256") {
+  return createHmac(algorithm, secret).update(rawBody).digest("hex");
+}
+
+export function verifyHmacSignature(
+  rawBody: Buffer,
+  signature: string | string[] | undefined,
+  secret: string,
+  algorithm: "sha256" | "sha512" = "sha256",
+) {
+  if (typeof signature !== "string" || !secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(rawBody, secret, algorithm), "hex");
+  const supplied = Buffer.from(signature, "hex");
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
@@ -0,0 +1,32 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Payment, PaymentStatus } from "@shared/schema";
+
+export interface ProviderResult {
+  status: PaymentStatus;
+  providerReference: string;
+  message?: string;
+  redirectUrl?: string; // hosted page the buyer must visit, e.g. for card payments
+  payload?: unknown;
+}
+
+export interface PaymentProvider {
+  // Stored on payments.provider and used in the webhook URL
+  readonly name: string;
+  initiate(payment: Payment): Promise<ProviderResult>;
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  parseWebhook(body: any): ProviderResult;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+export class InvalidWebhookSignatureError extends Error {
+  constructor() {
+    super("Invalid webhook signature");
+    this.name = "InvalidWebhookSignatureError";
+  }
+}
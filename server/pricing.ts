@@ -0,0 +1,173 @@
+import {
+  formatVariantOptions, type Order, type OrderFulfillment, type OrderItem, type Product, type ProductPriceTier, type ProductVariant,
+} from "@shared/schema";
+
+// Ghana levies are charged on the taxable value, and VAT is charged on the value plus levies
+export const GHANA_TAX_RATES = {
+  nhil: 0.025,
+  getfund: 0.025,
+  covid: 0.01,
+  vat: 0.15,
+};
+
+// Platform delivery rate, for sellers without delivery zones and orders priced without a destination
+export const FREE_SHIPPING_THRESHOLD = 100;
+export const FLAT_SHIPPING_FEE = 15;
+
+export interface QuoteLineInput {
+  product: Product;
+  variant?: ProductVariant;
+  quantity: number;
+  tiers?: ProductPriceTier[];
+  quotedPrice?: string; // price agreed on an accepted RFQ quote
+}
+
+export interface QuoteDiscount {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export interface SellerShipping {
+  sellerId: string;
+  zoneId: string | null; // null when the platform rate applied
+  zoneName: string | null;
+  pickupLocationId: string | null; // set when the buyer collects from this seller's yard
+  fee: number;
+}
+
+export interface QuoteLine {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface PriceQuote {
+  lines: QuoteLine[];
+  subtotal: number;
+  discounts: QuoteDiscount[];
+  discountTotal: number;
+  taxes: {
+    nhil: number;
+    getfund: number;
+    covid: number;
+    vat: number;
+  };
+  taxTotal: number;
+  shipping: number;
+  shippingBySeller: SellerShipping[];
+  total: number;
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The highest tier the quantity reaches sets the unit price; below every tier the list price applies.
+// Tiers are set against the product's list price, so a variant line is always charged the variant's price.
+// A negotiated RFQ price overrides both.
+export function unitPriceFor(line: QuoteLineInput): number {
+  if (line.quotedPrice !== undefined) {
+    return parseFloat(line.quotedPrice);
+  }
+  if (line.variant) {
+    return parseFloat(line.variant.price);
+  }
+  const tier = (line.tiers ?? [])
+    .filter(candidate => candidate.productId === line.product.id && candidate.minQuantity <= line.quantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+  return parseFloat(tier ? tier.price : line.product.price);
+}
+
+// Shipping is the sum of the per-seller fees when they're given, otherwise the platform rate on the whole order
+export function buildQuote(
+  inputs: QuoteLineInput[],
+  discounts: QuoteDiscount[] = [],
+  shippingBySeller?: SellerShipping[],
+): PriceQuote {
+  const lines = inputs.map((input) => {
+    const { product, variant, quantity } = input;
+    const unitPrice = unitPriceFor(input);
+    return {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      name: variant ? `${product.name} (${formatVariantOptions(variant.options)})` : product.name,
+      quantity,
+      unitPrice,
+      lineTotal: roundMoney(unitPrice * quantity),
+    };
+  });
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const discountTotal = Math.min(subtotal, roundMoney(discounts.reduce((sum, discount) => sum + discount.amount, 0)));
+  const taxable = roundMoney(subtotal - discountTotal);
+
+  const nhil = roundMoney(taxable * GHANA_TAX_RATES.nhil);
+  const getfund = roundMoney(taxable * GHANA_TAX_RATES.getfund);
+  const covid = roundMoney(taxable * GHANA_TAX_RATES.covid);
+  const vat = roundMoney((taxable + nhil + getfund + covid) * GHANA_TAX_RATES.vat);
+  const taxTotal = roundMoney(nhil + getfund + covid + vat);
+
+  const shipping = shippingBySeller
+    ? roundMoney(shippingBySeller.reduce((sum, entry) => sum + entry.fee, 0))
+    : taxable > FREE_SHIPPING_THRESHOLD || lines.length === 0 ? 0 : FLAT_SHIPPING_FEE;
+
+  return {
+    lines,
+    subtotal,
+    discounts,
+    discountTotal,
+    taxes: { nhil, getfund, covid, vat },
+    taxTotal,
+    shipping,
+    shippingBySeller: shippingBySeller ?? [],
+    total: roundMoney(taxable + taxTotal + shipping),
+  };
+}
+
+// Column values for persisting a quote on an orders row
+export function quoteToOrderTotals(quote: PriceQuote) {
+  return {
+    subtotal: quote.subtotal.toFixed(2),
+    discountTotal: quote.discountTotal.toFixed(2),
+    nhil: quote.taxes.nhil.toFixed(2),
+    getfundLevy: quote.taxes.getfund.toFixed(2),
+    covidLevy: quote.taxes.covid.toFixed(2),
+    vat: quote.taxes.vat.toFixed(2),
+    shippingFee: quote.shipping.toFixed(2),
+    total: quote.total.toFixed(2),
+  };
+}
+
+// What the buyer paid for some units of an order line: their price less their share of the discount, plus
+// their share of the taxes and of the delivery fee for their seller's part (or the whole order, if it wasn't split)
+export function paidForUnits(
+  order: Order,
+  fulfillment: Pick<OrderFulfillment, "subtotal" | "shippingFee"> | null,
+  item: Pick<OrderItem, "price" | "quantity" | "discount">,
+  quantity: number,
+): number {
+  const gross = parseFloat(item.price) * quantity;
+  const subtotal = parseFloat(order.subtotal);
+  if (subtotal <= 0) {
+    return roundMoney(gross); // orders from before checkout pricing only stored the total
+  }
+
+  // Older lines didn't record their share of the discount, so it's spread over the order by value
+  const discountTotal = parseFloat(order.discountTotal);
+  const discount = item.discount !== null
+    ? parseFloat(item.discount) * quantity / item.quantity
+    : discountTotal * gross / subtotal;
+  const taxable = subtotal - discountTotal;
+  const taxTotal = parseFloat(order.nhil) + parseFloat(order.getfundLevy) + parseFloat(order.covidLevy) + parseFloat(order.vat);
+  const taxes = taxable > 0 ? taxTotal * (gross - discount) / taxable : 0;
+
+  const shippingBase = fulfillment ? parseFloat(fulfillment.subtotal) : subtotal;
+  const shippingFee = parseFloat(fulfillment ? fulfillment.shippingFee : order.shippingFee);
+  const shipping = shippingBase > 0 ? shippingFee * gross / shippingBase : 0;
+
+  return roundMoney(gross - discount + taxes + shipping);
+}
@@ -0,0 +1,122 @@
+import type { Promotion } from "@shared/schema";
+import { storage } from "./storage";
+import { roundMoney, unitPriceFor, type QuoteDiscount, type QuoteLineInput } from "./pricing";
+
+export interface AppliedPromotion extends QuoteDiscount {
+  promotionId: string;
+  sellerId: string | null; // set when the seller funds the discount rather than the platform
+  lineDiscounts: number[]; // the amount split over the cart lines, in line order
+}
+
+// Thrown when a code the buyer typed can't be used on this cart
+export class PromotionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromotionError";
+  }
+}
+
+function isEligibleLine(promotion: Promotion, line: QuoteLineInput) {
+  return (!promotion.category || line.product.category === promotion.category)
+    && (!promotion.sellerId || line.product.sellerId === promotion.sellerId);
+}
+
+/**
+ * Works out what a promotion takes off this cart. Returns the discount, or a reason it
+ * doesn't apply so typed-in codes can explain themselves.
+ */
+export function evaluatePromotion(
+  promotion: Promotion,
+  lines: QuoteLineInput[],
+  usage: { total: number; byUser: number },
+  now = new Date(),
+): AppliedPromotion | { reason: string } {
+  if (!promotion.isActive) {
+    return { reason: "This promotion is no longer active" };
+  }
+  if (promotion.startsAt && now < promotion.startsAt) {
+    return { reason: "This promotion hasn't started yet" };
+  }
+  if (promotion.endsAt && now > promotion.endsAt) {
+    return { reason: "This promotion has expired" };
+  }
+  if (promotion.maxUses !== null && usage.total >= promotion.maxUses) {
+    return { reason: "This promotion has been fully redeemed" };
+  }
+  if (promotion.maxUsesPerUser !== null && usage.byUser >= promotion.maxUsesPerUser) {
+    return { reason: "You have already used this promotion" };
+  }
+
+  const lineTotals = lines.map(line => isEligibleLine(promotion, line) ? roundMoney(unitPriceFor(line) * line.quantity) : 0);
+  const eligibleSubtotal = roundMoney(lineTotals.reduce((sum, total) => sum + total, 0));
+  if (eligibleSubtotal === 0) {
+    return { reason: "No items in your cart qualify for this promotion" };
+  }
+  if (promotion.minSpend && eligibleSubtotal < parseFloat(promotion.minSpend)) {
+    return { reason: `Spend at least ${promotion.minSpend} on qualifying items to use this promotion` };
+  }
+
+  const value = parseFloat(promotion.value);
+  const amount = promotion.discountType === "percentage"
+    ? roundMoney(eligibleSubtotal * value / 100)
+    : Math.min(value, eligibleSubtotal);
+
+  return {
+    promotionId: promotion.id,
+    sellerId: promotion.sellerId,
+    code: promotion.code ?? promotion.name,
+    description: promotion.name,
+    amount,
+    lineDiscounts: splitDiscount(amount, lineTotals),
+  };
+}
+
+// Splits a discount over the eligible lines in proportion to their totals, in whole pesewas, with
+// the rounding left on the last eligible line so the shares add up exactly
+function splitDiscount(amount: number, lineTotals: number[]): number[] {
+  const amountCents = Math.round(amount * 100);
+  const eligibleTotal = lineTotals.reduce((sum, total) => sum + total, 0);
+  const lastEligible = lineTotals.map(total => total > 0).lastIndexOf(true);
+  let allocated = 0;
+  return lineTotals.map((total, index) => {
+    const cents = index === lastEligible
+      ? amountCents - allocated
+      : Math.floor(amountCents * total / eligibleTotal);
+    allocated += cents;
+    return cents / 100;
+  });
+}
+
+// The best of the automatic promotions and the buyer's code, if any; promotions don't stack. A bad code is an
+// error, an ineligible automatic one is skipped
+export async function resolvePromotions(
+  userId: string,
+  lines: QuoteLineInput[],
+  promotionCode?: string,
+): Promise<AppliedPromotion[]> {
+  const candidates = await storage.getAutomaticPromotions();
+
+  if (promotionCode) {
+    const promotion = await storage.getPromotionByCode(promotionCode.trim().toUpperCase());
+    if (!promotion) {
+      throw new PromotionError("Promotion code not found");
+    }
+    candidates.push(promotion);
+  }
+
+  const applied: AppliedPromotion[] = [];
+  for (const promotion of candidates) {
+    const usage = await storage.getPromotionUsage(promotion.id, userId);
+    const result = evaluatePromotion(promotion, lines, usage);
+    if ("reason" in result) {
+      if (promotion.code && promotion.code === promotionCode?.trim().toUpperCase()) {
+        throw new PromotionError(result.reason);
+      }
+      continue;
+    }
+    applied.push(result);
+  }
+
+  const best = applied.sort((a, b) => b.amount - a.amount)[0];
+  return best ? [best] : [];
+}
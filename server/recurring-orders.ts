@@ -0,0 +1,185 @@
+import { formatVariantOptions, type GhanaRegion, type RecurringFrequency } from "@shared/schema";
+import {
+  storage, InsufficientStockError, PromotionLimitError,
+  type RecurringOrderDetails, type RecurringOrderLineInput,
+} from "./storage";
+import { attachPriceTiers, loadQuoteLines, placeOrder, OrderRequestError, type OrderRequestItem } from "./orders";
+import { unitPriceFor } from "./pricing";
+import { PromotionError } from "./promotions";
+import { ShippingError } from "./shipping";
+import { log } from "./vite";
+
+// How long before a run the user hears about price changes and stockouts
+export const REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+// Monthly runs keep their day of the month, falling back to the month's last day when it's shorter
+export function nextRunAfter(runAt: Date, frequency: RecurringFrequency): Date {
+  const next = new Date(runAt);
+  if (frequency !== "monthly") {
+    next.setDate(next.getDate() + (frequency === "weekly" ? 7 : 14));
+    return next;
+  }
+  const day = next.getDate();
+  next.setDate(1);
+  next.setMonth(next.getMonth() + 1);
+  const daysInMonth = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(day, daysInMonth));
+  return next;
+}
+
+function orderItems(schedule: RecurringOrderDetails): OrderRequestItem[] {
+  return schedule.items.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: item.quantity }));
+}
+
+function formatRunDate(date: Date): string {
+  return date.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" });
+}
+
+// Prices schedule lines the way checkout would today, to store as what the user expects to pay
+export async function priceRecurringLines(items: OrderRequestItem[]): Promise<RecurringOrderLineInput[] | { error: string }> {
+  const lines = await loadQuoteLines(items);
+  if ("error" in lines) {
+    return lines;
+  }
+  await attachPriceTiers(lines);
+  return lines.map(line => ({
+    productId: line.product.id,
+    variantId: line.variant?.id ?? null,
+    quantity: line.quantity,
+    expectedPrice: unitPriceFor(line).toFixed(2),
+  }));
+}
+
+// What would stop the next run going through as the user set it up: price changes, delistings and short stock
+export async function findRunProblems(schedule: RecurringOrderDetails): Promise<string[]> {
+  const lines = await loadQuoteLines(orderItems(schedule));
+  if ("error" in lines) {
+    return [lines.error];
+  }
+  await attachPriceTiers(lines);
+
+  const problems: string[] = [];
+  lines.forEach((line, index) => {
+    const expected = schedule.items[index].expectedPrice;
+    const name = line.variant ? `${line.product.name} (${formatVariantOptions(line.variant.options)})` : line.product.name;
+    if (!line.product.isActive) {
+      problems.push(`${name} is no longer available`);
+      return;
+    }
+
+    const price = unitPriceFor(line);
+    if (price !== parseFloat(expected)) {
+      problems.push(`${name} price changed from GHS ${expected} to GHS ${price.toFixed(2)}`);
+    }
+    const available = line.variant?.stock ?? line.product.stock;
+    if (line.quantity > available) {
+      problems.push(available === 0 ? `${name} is out of stock` : `Only ${available} ${name} left in stock`);
+    }
+  });
+  return problems;
+}
+
+async function remind(schedule: RecurringOrderDetails) {
+  const problems = await findRunProblems(schedule);
+  if (problems.length > 0) {
+    await storage.createNotification({
+      userId: schedule.userId,
+      type: "recurring_order_attention",
+      title: `${schedule.name} needs attention`,
+      body: `Before the order due ${formatRunDate(schedule.nextRunAt)}: ${problems.join("; ")}.`,
+      link: "/recurring-orders",
+    });
+  }
+  await storage.markRecurringOrderReminded(schedule.id, schedule.nextRunAt);
+}
+
+async function run(schedule: RecurringOrderDetails, now: Date) {
+  // Runs missed while the server was down are skipped rather than placed all at once
+  let nextRunAt: Date | null = nextRunAfter(schedule.nextRunAt, schedule.frequency);
+  while (nextRunAt <= now) {
+    nextRunAt = nextRunAfter(nextRunAt, schedule.frequency);
+  }
+  if (schedule.endDate && nextRunAt > schedule.endDate) {
+    nextRunAt = null;
+  }
+  if (!await storage.claimRecurringOrderRun(schedule.id, schedule.nextRunAt, nextRunAt)) {
+    return;
+  }
+  const lastRun = nextRunAt ? "" : " This was the last order on this schedule.";
+
+  try {
+    const order = await placeOrder(schedule.userId, {
+      items: orderItems(schedule),
+      shippingAddress: schedule.shippingAddress,
+      shippingRegion: schedule.shippingRegion as GhanaRegion,
+      shippingDistrict: schedule.shippingDistrict ?? undefined,
+    });
+
+    const details = await storage.getOrderDetails(order.id);
+    const prices = schedule.items.flatMap(item => {
+      const line = details?.items.find(candidate =>
+        candidate.productId === item.productId && candidate.variantId === item.variantId);
+      return line ? [{ itemId: item.id, expectedPrice: line.price }] : [];
+    });
+    await storage.recordRecurringOrderRun(schedule.id, order.id, prices);
+
+    await storage.createNotification({
+      userId: schedule.userId,
+      type: "recurring_order_placed",
+      title: `${schedule.name}: order placed`,
+      body: `Order ${order.id.slice(0, 8)} for GHS ${order.total} is waiting for payment.${lastRun}`,
+      link: "/recurring-orders",
+    });
+  } catch (error) {
+    const known = error instanceof OrderRequestError || error instanceof ShippingError
+      || error instanceof PromotionError || error instanceof InsufficientStockError
+      || error instanceof PromotionLimitError;
+    if (!known) {
+      log(`Recurring order ${schedule.id} failed: ${error instanceof Error ? error.message : error}`, "scheduler");
+    }
+    const reason = known ? ` ${(error as Error).message}.` : "";
+    await storage.createNotification({
+      userId: schedule.userId,
+      type: "recurring_order_failed",
+      title: `${schedule.name}: order not placed`,
+      body: `The order due ${formatRunDate(schedule.nextRunAt)} couldn't be placed and was skipped.${reason}${lastRun}`,
+      link: "/recurring-orders",
+    });
+  }
+}
+
+/** Warns about upcoming runs that have problems, then places every run that's due. */
+export async function processRecurringOrders(now = new Date()) {
+  const upcoming = await storage.getDueRecurringOrders(new Date(now.getTime() + REMINDER_LEAD_MS));
+  for (const schedule of upcoming) {
+    if (schedule.nextRunAt > now && schedule.remindedForRunAt?.getTime() !== schedule.nextRunAt.getTime()) {
+      await remind(schedule);
+    }
+  }
+
+  for (const schedule of upcoming.filter(candidate => candidate.nextRunAt <= now)) {
+    await run(schedule, now);
+  }
+}
+
+// Ticks don't overlap within a process; claimRecurringOrderRun keeps separate processes from placing a run twice
+export function startRecurringOrderScheduler() {
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await processRecurringOrders();
+    } catch (error) {
+      log(`Recurring order run failed: ${error instanceof Error ? error.message : error}`, "scheduler");
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,43 @@
+// Raw track record behind a seller's storefront figures
+export interface SellerStats {
+  reviewAverage: number | null;
+  reviewCount: number;
+  deliveredCount: number; // fulfillments that reached the buyer
+  cancelledCount: number;
+  scheduledDeliveredCount: number; // delivered on a booked slot, so lateness can be judged
+  onTimeCount: number;
+  averageResponseHours: number | null; // from an RFQ being posted to the seller quoting on it
+  activeProductCount: number;
+}
+
+export interface SellerReputation {
+  score: number | null; // 0-100, null until there's anything to judge
+  fulfillmentRate: number | null; // share of finished fulfillments that weren't cancelled
+  onTimeRate: number | null;
+}
+
+// How much each signal counts towards the score; a signal with no history is left out and the rest rescaled
+const SCORE_WEIGHTS = { reviews: 0.5, fulfillment: 0.3, onTime: 0.2 };
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+export function computeReputation(stats: SellerStats): SellerReputation {
+  const fulfillmentRate = ratio(stats.deliveredCount, stats.deliveredCount + stats.cancelledCount);
+  const onTimeRate = ratio(stats.onTimeCount, stats.scheduledDeliveredCount);
+  const reviewRate = stats.reviewAverage === null ? null : (stats.reviewAverage - 1) / 4;
+
+  const signals: [number | null, number][] = [
+    [reviewRate, SCORE_WEIGHTS.reviews],
+    [fulfillmentRate, SCORE_WEIGHTS.fulfillment],
+    [onTimeRate, SCORE_WEIGHTS.onTime],
+  ];
+  const known = signals.filter((signal): signal is [number, number] => signal[0] !== null);
+  const totalWeight = known.reduce((sum, [, weight]) => sum + weight, 0);
+  const score = totalWeight > 0
+    ? Math.round(known.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight * 100)
+    : null;
+
+  return { score, fulfillmentRate, onTimeRate };
+}
@@ -1,11 +1,27 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertProductSchema, insertCartItemSchema, insertOrderSchema, insertProjectSchema, insertMilestoneSchema, insertProgressImageSchema, insertProjectInventorySchema, insertProjectExpenseSchema } from "@shared/schema";
+import {
+  storage, InsufficientStockError, InvalidStatusTransitionError, InsufficientBalanceError, InvalidPayoutTransitionError,
+  ReturnRequestError, PromotionLimitError, RfqError, DeliveryError, InvalidDeliveryTransitionError, ReviewError,
+  PaymentInProgressError,
+} from "./storage";
+import { insertProductSchema, priceTiersSchema, insertProductVariantSchema, type Product, insertCartItemSchema, insertOrderSchema, checkoutQuoteSchema, updateOrderStatusSchema, updateFulfillmentStatusSchema, startPaymentSchema, requestPayoutSchema, insertCommissionRuleSchema, payoutStatusEnum, createReturnSchema, returnDecisionSchema, createReviewSchema, reviewReplySchema, moderateReviewSchema, reviewStatusEnum, insertPromotionSchema, insertProjectSchema, insertMilestoneSchema, insertProgressImageSchema, insertProjectInventorySchema, insertProjectExpenseSchema, createRfqSchema, createRfqQuoteSchema, rfqStatusEnum, insertSavedListSchema, insertSavedListItemSchema, createRecurringOrderSchema, updateRecurringOrderSchema, insertDeliveryZoneSchema, insertPickupLocationSchema, collectPickupSchema, scheduleDeliverySchema, updateDeliveryStatusSchema, deliveryProofSchema, roleEnum, ghanaRegions, productUnitSchema, parseUnit, type UnitCode, type OrderFulfillment, type GhanaRegion } from "@shared/schema";
+import { buildQuote, quoteToOrderTotals, type QuoteLineInput } from "./pricing";
+import { idempotent } from "./idempotency";
+import { validateCart, cartUnitPrice, addSavedListToCart } from "./cart";
+import { quantityPerSaleUnit, saleUnitsFor, UnitConversionError } from "./units";
+import { renderInvoicePdf, formatInvoiceNumber } from "./invoices";
+import { placeOrder, loadQuoteLines, attachPriceTiers, loadPickupLocations, OrderRequestError } from "./orders";
+import { priceRecurringLines } from "./recurring-orders";
+import { computeReputation } from "./reputation";
+import { quoteShipping, toFulfillmentShipping, ShippingError } from "./shipping";
+import { resolvePromotions, PromotionError } from "./promotions";
+import { startPayment, handlePaymentWebhook, InvalidWebhookSignatureError } from "./payments";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { randomBytes } from "crypto";
 
 // Setup multer for file uploads
 const uploadDir = path.join(process.cwd(), 'uploads');
@@ -25,6 +41,53 @@ const storage_multer = multer.diskStorage({
 
 const upload = multer({ storage: storage_multer });
 
+// Photos from buyers and drivers are served back from our own origin, so only plain images are kept
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp"];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const imageUpload = multer({
+  storage: storage_multer,
+  limits: { fileSize: MAX_IMAGE_BYTES },
+  fileFilter: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!file.mimetype.startsWith("image/") || !IMAGE_EXTENSIONS.includes(extension)) {
+      return cb(new Error("Photos must be JPEG, PNG, GIF or WebP images"));
+    }
+    cb(null, true);
+  },
+});
+
+function uploadedFiles(req: Request): Express.Multer.File[] {
+  if (Array.isArray(req.files)) {
+    return req.files;
+  }
+  return Object.values(req.files ?? {}).flat();
+}
+
+// Runs an imageUpload middleware, answering upload problems with a 400 and deleting the
+// stored files again if the request is turned down
+function acceptImages(middleware: RequestHandler): RequestHandler {
+  return (req, res, next) => {
+    middleware(req, res, (error?: unknown) => {
+      if (error) {
+        const message = error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE"
+          ? `Photos must be under ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+          : error instanceof Error ? error.message : "Upload failed";
+        return res.status(400).json({ error: message });
+      }
+
+      res.on("finish", () => {
+        if (res.statusCode >= 400) {
+          for (const file of uploadedFiles(req)) {
+            fs.unlink(file.path, () => {});
+          }
+        }
+      });
+      next();
+    });
+  };
+}
+
 function requireAuth(req: any, res: any, next: any) {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: "Authentication required" });
@@ -41,6 +104,78 @@ function requireRole(roles: string[]) {
   };
 }
 
+// For handlers behind requireAuth, so the signed-in user isn't typed as possibly missing
+function currentUser(req: Request): Express.User {
+  if (!req.user) {
+    throw new Error("Authentication required");
+  }
+  return req.user;
+}
+
+// Checked before a return's photos are stored, so only the order's buyer can upload against it
+async function requireOrderBuyer(req: any, res: any, next: any) {
+  try {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    if (order.userId !== currentUser(req).id) {
+      return res.status(403).json({ error: "Not authorized to return items from this order" });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch order" });
+  }
+}
+
+// Checked before a review's photos are stored, so only buyers who are able to post the review upload anything
+async function requireReviewablePurchase(req: any, res: any, next: any) {
+  try {
+    const product = await storage.getProduct(req.params.id);
+    if (!product) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+
+    await storage.checkCanReview(product.id, currentUser(req).id);
+    next();
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: "Failed to check review" });
+  }
+}
+
+async function withVariants(productList: Product[], includeInactive = false) {
+  const variants = await storage.getVariantsByProducts(productList.map(product => product.id));
+  return productList.map(product => ({
+    ...product,
+    variants: variants.filter(variant =>
+      variant.productId === product.id && !variant.archivedAt && (includeInactive || variant.isActive)),
+  }));
+}
+
+// Average published rating and review count for each listing; the rating is null until the first review
+async function withRatings<T extends Product>(productList: T[]) {
+  const ratings = await storage.getProductRatings(productList.map(product => product.id));
+  return productList.map(product => {
+    const rating = ratings.find(entry => entry.productId === product.id);
+    return { ...product, rating: rating?.average ?? null, reviewCount: rating?.count ?? 0 };
+  });
+}
+
+// The pickup code proves the buyer is at the counter, so sellers never get it from the API
+function hidePickupCode<T extends OrderFulfillment>(fulfillment: T): T {
+  return { ...fulfillment, pickupCode: null };
+}
+
+// Deliveries can only be handed to users registered as drivers
+async function isDriver(userId: string): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  return user?.role === "driver";
+}
+
 export function registerRoutes(app: Express): Server {
   setupAuth(app);
 
@@ -69,7 +204,7 @@ export function registerRoutes(app: Express): Server {
         products = await storage.getAllProducts();
       }
       
-      res.json(products);
+      res.json(await withRatings(await withVariants(products)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch products" });
     }
@@ -78,10 +213,11 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/products/:id", async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
-      if (!product) {
+      if (!product || product.archivedAt) {
         return res.status(404).json({ error: "Product not found" });
       }
-      res.json(product);
+      const [productWithDetails] = await withRatings(await withVariants([product]));
+      res.json(productWithDetails);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch product" });
     }
@@ -94,6 +230,11 @@ export function registerRoutes(app: Express): Server {
         sellerId: req.user.id,
         imageUrl: req.file ? `/uploads/${req.file.filename}` : null,
         stock: parseInt(req.body.stock) || 0,
+        unit: req.body.unit || "piece",
+        packSize: req.body.packSize || null,
+        packUnit: req.body.packUnit || null,
+        shippingWeight: req.body.shippingWeight || null,
+        shippingVolume: req.body.shippingVolume || null,
       };
       
       const validatedData = insertProductSchema.parse(productData);
@@ -107,7 +248,7 @@ export function registerRoutes(app: Express): Server {
   app.put("/api/products/:id", requireAuth, requireRole(["seller", "admin"]), upload.single('image'), async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
-      if (!product) {
+      if (!product || product.archivedAt) {
         return res.status(404).json({ error: "Product not found" });
       }
       
@@ -119,8 +260,24 @@ export function registerRoutes(app: Express): Server {
       const updateData = {
         ...req.body,
         stock: req.body.stock ? parseInt(req.body.stock) : undefined,
+        // An emptied form field clears the figure
+        shippingWeight: req.body.shippingWeight !== undefined ? req.body.shippingWeight || null : undefined,
+        shippingVolume: req.body.shippingVolume !== undefined ? req.body.shippingVolume || null : undefined,
       };
 
+      // Check the unit and pack size as they will look after the update
+      if (req.body.unit !== undefined || req.body.packSize !== undefined || req.body.packUnit !== undefined) {
+        const parsedUnits = productUnitSchema.safeParse({
+          unit: req.body.unit ?? product.unit,
+          packSize: req.body.packSize !== undefined ? req.body.packSize || null : product.packSize,
+          packUnit: req.body.packUnit !== undefined ? req.body.packUnit || null : product.packUnit,
+        });
+        if (!parsedUnits.success) {
+          return res.status(400).json({ error: parsedUnits.error.errors[0].message });
+        }
+        Object.assign(updateData, parsedUnits.data);
+      }
+
       if (req.file) {
         updateData.imageUrl = `/uploads/${req.file.filename}`;
       }
@@ -135,7 +292,7 @@ export function registerRoutes(app: Express): Server {
   app.delete("/api/products/:id", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
-      if (!product) {
+      if (!product || product.archivedAt) {
         return res.status(404).json({ error: "Product not found" });
       }
       
@@ -150,16 +307,267 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get("/api/products/:id/price-tiers", async (req, res) => {
+    try {
+      const tiers = await storage.getPriceTiers([req.params.id]);
+      res.json(tiers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch price tiers" });
+    }
+  });
+
+  app.put("/api/products/:id/price-tiers", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      if (user.role !== "admin" && product.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this product" });
+      }
+
+      const parsed = priceTiersSchema.safeParse(req.body.tiers);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const tiers = await storage.replacePriceTiers(product.id, parsed.data);
+      res.json(tiers);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update price tiers" });
+    }
+  });
+
+  // Variant routes; each variant has its own SKU, price and stock
+  app.get("/api/products/:id/variants", async (req, res) => {
+    try {
+      const variants = await storage.getVariantsByProducts([req.params.id]);
+      res.json(variants.filter(variant => variant.isActive));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch variants" });
+    }
+  });
+
+  app.post("/api/products/:id/variants", requireAuth, requireRole(["seller", "admin"]), upload.single('image'), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      if (user.role !== "admin" && product.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this product" });
+      }
+
+      // Options arrive as a JSON string when the form carries an image
+      const parsed = insertProductVariantSchema.safeParse({
+        ...req.body,
+        productId: product.id,
+        options: typeof req.body.options === "string" ? JSON.parse(req.body.options) : req.body.options,
+        stock: parseInt(req.body.stock) || 0,
+        imageUrl: req.file ? `/uploads/${req.file.filename}` : null,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      if (await storage.getVariantBySku(parsed.data.sku)) {
+        return res.status(400).json({ error: "SKU already exists" });
+      }
+
+      const variant = await storage.createVariant(parsed.data);
+      res.status(201).json(variant);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create variant" });
+    }
+  });
+
+  app.patch("/api/variants/:id", requireAuth, requireRole(["seller", "admin"]), upload.single('image'), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const variant = await storage.getVariant(req.params.id);
+      if (!variant || variant.archivedAt) {
+        return res.status(404).json({ error: "Variant not found" });
+      }
+
+      const product = await storage.getProduct(variant.productId);
+      if (user.role !== "admin" && product?.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this product" });
+      }
+
+      // Validate the variant as it will look after the update
+      const { id, archivedAt, createdAt, ...current } = variant;
+      const parsed = insertProductVariantSchema.safeParse({
+        ...current,
+        ...req.body,
+        productId: variant.productId,
+        options: typeof req.body.options === "string" ? JSON.parse(req.body.options) : (req.body.options ?? variant.options),
+        stock: req.body.stock !== undefined ? parseInt(req.body.stock) : variant.stock,
+        isActive: req.body.isActive !== undefined ? req.body.isActive === true || req.body.isActive === "true" : variant.isActive,
+        imageUrl: req.file ? `/uploads/${req.file.filename}` : variant.imageUrl,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const existing = await storage.getVariantBySku(parsed.data.sku);
+      if (existing && existing.id !== variant.id) {
+        return res.status(400).json({ error: "SKU already exists" });
+      }
+
+      const updatedVariant = await storage.updateVariant(variant.id, parsed.data);
+      res.json(updatedVariant);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update variant" });
+    }
+  });
+
+  app.delete("/api/variants/:id", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const variant = await storage.getVariant(req.params.id);
+      if (!variant || variant.archivedAt) {
+        return res.status(404).json({ error: "Variant not found" });
+      }
+
+      const product = await storage.getProduct(variant.productId);
+      if (user.role !== "admin" && product?.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to delete this variant" });
+      }
+
+      await storage.deleteVariant(variant.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete variant" });
+    }
+  });
+
+  // Review routes; only buyers who have received the product can review it
+  app.get("/api/products/:id/reviews", async (req, res) => {
+    try {
+      res.json(await storage.getProductReviews(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post(
+    "/api/products/:id/reviews",
+    requireAuth,
+    requireRole(["buyer", "client"]),
+    requireReviewablePurchase,
+    acceptImages(imageUpload.array('photos', 5)),
+    async (req, res) => {
+      try {
+        const user = currentUser(req);
+        const product = await storage.getProduct(req.params.id);
+        if (!product) {
+          return res.status(404).json({ error: "Product not found" });
+        }
+
+        const parsed = createReviewSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.errors[0].message });
+        }
+
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
+        const photoUrls = files.map(file => `/uploads/${file.filename}`);
+
+        const review = await storage.createReview(product.id, user.id, parsed.data, photoUrls);
+        res.status(201).json(await storage.getReview(review.id));
+      } catch (error) {
+        if (error instanceof ReviewError) {
+          return res.status(400).json({ error: error.message });
+        }
+        res.status(400).json({ error: "Failed to create review" });
+      }
+    },
+  );
+
+  // The seller answers publicly under the review; replying again replaces the earlier reply
+  app.post("/api/reviews/:id/reply", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const review = await storage.getReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+
+      if (user.role !== "admin" && review.product.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to reply to this review" });
+      }
+
+      const parsed = reviewReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      await storage.replyToReview(review.id, parsed.data.reply);
+      res.json(await storage.getReview(review.id));
+    } catch (error) {
+      res.status(400).json({ error: "Failed to reply to review" });
+    }
+  });
+
+  // Seller storefronts; public, so nothing here identifies the seller beyond their trading name
+  app.get("/api/sellers/:id", async (req, res) => {
+    try {
+      const seller = await storage.getUser(req.params.id);
+      const listings = seller ? await storage.getProductsBySeller(seller.id) : [];
+      // Users can switch roles, so anyone with listings still has a storefront
+      if (!seller || (seller.role !== "seller" && listings.length === 0)) {
+        return res.status(404).json({ error: "Seller not found" });
+      }
+
+      const stats = await storage.getSellerStats(seller.id);
+      const yards = await storage.getActivePickupLocations([seller.id]);
+      const activeListings = listings.filter(product => product.isActive);
+
+      res.json({
+        id: seller.id,
+        businessName: seller.businessName || seller.username,
+        // Where the seller's yards are; sellers who only deliver have no fixed location to show
+        location: yards.length > 0 ? Array.from(new Set(yards.map(yard => yard.region))).join(", ") : null,
+        joinedAt: seller.createdAt,
+        rating: stats.reviewAverage,
+        reviewCount: stats.reviewCount,
+        ...computeReputation(stats),
+        responseTimeHours: stats.averageResponseHours,
+        activeProductCount: stats.activeProductCount,
+        products: await withRatings(await withVariants(activeListings)),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch seller" });
+    }
+  });
+
   // Cart routes
+  // ?include=products joins each line's product, variant and seller so the cart renders from one request
   app.get("/api/cart", requireAuth, async (req, res) => {
     try {
-      const cartItems = await storage.getCartItems(req.user.id);
+      const user = currentUser(req);
+      const cartItems = req.query.include === "products"
+        ? await storage.getCartItemsWithProducts(user.id)
+        : await storage.getCartItems(user.id);
       res.json(cartItems);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch cart" });
     }
   });
 
+  // Lines whose price changed, stock ran short or listing went away since they were added
+  app.get("/api/cart/validate", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      res.json(await validateCart(user.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to validate cart" });
+    }
+  });
+
   app.post("/api/cart", requireAuth, async (req, res) => {
     try {
       const cartData = {
@@ -167,83 +575,1379 @@ export function registerRoutes(app: Express): Server {
         userId: req.user.id,
       };
       const validatedData = insertCartItemSchema.parse(cartData);
-      const cartItem = await storage.addToCart(validatedData);
+      const lines = await loadQuoteLines([{
+        productId: validatedData.productId,
+        variantId: validatedData.variantId,
+        quantity: validatedData.quantity ?? 1,
+      }]);
+      if ("error" in lines) {
+        return res.status(400).json({ error: lines.error });
+      }
+      const [line] = lines;
+      const cartItem = await storage.addToCart({ ...validatedData, price: cartUnitPrice(line.product, line.variant) });
       res.status(201).json(cartItem);
     } catch (error) {
-      res.status(400).json({ error: "Failed to add to cart" });
+      res.status(400).json({ error: "Failed to add to cart" });
+    }
+  });
+
+  // Saving a line also moves it to the current price, which is how a buyer accepts a price change
+  app.put("/api/cart/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const existing = await storage.getCartItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      if (existing.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this cart item" });
+      }
+
+      const { quantity } = req.body;
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return res.status(400).json({ error: "Quantity must be a positive whole number" });
+      }
+
+      const product = await storage.getProduct(existing.productId);
+      const variant = existing.variantId ? await storage.getVariant(existing.variantId) : undefined;
+      const price = product ? cartUnitPrice(product, variant) : undefined;
+
+      const cartItem = await storage.updateCartItem(existing.id, quantity, price);
+      res.json(cartItem);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update cart item" });
+    }
+  });
+
+  app.delete("/api/cart/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const existing = await storage.getCartItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Cart item not found" });
+      }
+
+      if (existing.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to remove this cart item" });
+      }
+
+      await storage.removeFromCart(existing.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove from cart" });
+    }
+  });
+
+  // Saved list routes; products a user plans to buy later, kept out of the cart
+  app.get("/api/lists", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      res.json(await storage.getSavedLists(user.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch lists" });
+    }
+  });
+
+  app.post("/api/lists", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = insertSavedListSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const list = await storage.createSavedList(user.id, parsed.data);
+      res.status(201).json(list);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create list" });
+    }
+  });
+
+  app.get("/api/lists/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this list" });
+      }
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch list" });
+    }
+  });
+
+  app.patch("/api/lists/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this list" });
+      }
+
+      const parsed = insertSavedListSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const updated = await storage.updateSavedList(list.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update list" });
+    }
+  });
+
+  app.delete("/api/lists/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to delete this list" });
+      }
+
+      await storage.deleteSavedList(list.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete list" });
+    }
+  });
+
+  app.post("/api/lists/:id/items", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this list" });
+      }
+
+      const parsed = insertSavedListItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const lines = await loadQuoteLines([{ ...parsed.data, quantity: parsed.data.quantity ?? 1 }]);
+      if ("error" in lines) {
+        return res.status(400).json({ error: lines.error });
+      }
+
+      const item = await storage.addSavedListItem(list.id, parsed.data);
+      res.status(201).json(item);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to add to list" });
+    }
+  });
+
+  app.patch("/api/lists/:id/items/:itemId", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      const item = list?.items.find(candidate => candidate.id === req.params.itemId);
+      if (!list || !item) {
+        return res.status(404).json({ error: "List item not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this list" });
+      }
+
+      const parsed = insertSavedListItemSchema.pick({ quantity: true, note: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const updated = await storage.updateSavedListItem(item.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update list item" });
+    }
+  });
+
+  app.delete("/api/lists/:id/items/:itemId", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      const item = list?.items.find(candidate => candidate.id === req.params.itemId);
+      if (!list || !item) {
+        return res.status(404).json({ error: "List item not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this list" });
+      }
+
+      await storage.removeSavedListItem(item.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove from list" });
+    }
+  });
+
+  // Puts every line of the list in the cart at its target quantity; delisted lines are reported back
+  app.post("/api/lists/:id/cart", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to use this list" });
+      }
+
+      res.json(await addSavedListToCart(user.id, list));
+    } catch (error) {
+      res.status(400).json({ error: "Failed to add list to cart" });
+    }
+  });
+
+  // Sharing hands out a link token; anyone signed in with it can view the list but not change it
+  app.post("/api/lists/:id/share", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to share this list" });
+      }
+
+      const shared = list.shareToken
+        ? list
+        : await storage.setSavedListShareToken(list.id, randomBytes(16).toString("hex"));
+      res.json(shared);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to share list" });
+    }
+  });
+
+  app.delete("/api/lists/:id/share", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const list = await storage.getSavedList(req.params.id);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      if (list.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to share this list" });
+      }
+
+      const updated = await storage.setSavedListShareToken(list.id, null);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to stop sharing list" });
+    }
+  });
+
+  app.get("/api/shared-lists/:token", requireAuth, async (req, res) => {
+    try {
+      const list = await storage.getSavedListByShareToken(req.params.token);
+      if (!list) {
+        return res.status(404).json({ error: "List not found" });
+      }
+
+      const owner = await storage.getUser(list.userId);
+      res.json({
+        ...list,
+        owner: owner ? { username: owner.username, businessName: owner.businessName } : null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch list" });
+    }
+  });
+
+  // Recurring order routes; the scheduler places each run through the same path as checkout
+  app.get("/api/recurring-orders", requireAuth, requireRole(["buyer", "client"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      res.json(await storage.getRecurringOrders(user.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recurring orders" });
+    }
+  });
+
+  app.post("/api/recurring-orders", requireAuth, requireRole(["buyer", "client"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = createRecurringOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const { items, ...schedule } = parsed.data;
+      if (schedule.nextRunAt <= new Date()) {
+        return res.status(400).json({ error: "The first order must be in the future" });
+      }
+
+      const lines = await priceRecurringLines(items);
+      if ("error" in lines) {
+        return res.status(400).json({ error: lines.error });
+      }
+
+      const created = await storage.createRecurringOrder(user.id, schedule, lines);
+      res.status(201).json(await storage.getRecurringOrder(created.id));
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create recurring order" });
+    }
+  });
+
+  app.get("/api/recurring-orders/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const schedule = await storage.getRecurringOrder(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: "Recurring order not found" });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this recurring order" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recurring order" });
+    }
+  });
+
+  // Editing the lines re-prices them, so the pre-run check compares against what the user saw when saving
+  app.patch("/api/recurring-orders/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const schedule = await storage.getRecurringOrder(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: "Recurring order not found" });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this recurring order" });
+      }
+
+      if (schedule.status === "ended") {
+        return res.status(409).json({ error: "This recurring order has ended" });
+      }
+
+      const parsed = updateRecurringOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const { items, ...changes } = parsed.data;
+      const nextRunAt = changes.nextRunAt ?? schedule.nextRunAt;
+      const endDate = changes.endDate === undefined ? schedule.endDate : changes.endDate;
+      const active = (changes.status ?? schedule.status) === "active";
+      if ((changes.nextRunAt || active) && nextRunAt <= new Date()) {
+        return res.status(400).json({ error: "Choose when the next order should be placed" });
+      }
+      if (endDate && endDate <= nextRunAt) {
+        return res.status(400).json({ error: "End date must be after the next order" });
+      }
+
+      const lines = items ? await priceRecurringLines(items) : undefined;
+      if (lines && "error" in lines) {
+        return res.status(400).json({ error: lines.error });
+      }
+
+      await storage.updateRecurringOrder(schedule.id, changes, lines);
+      res.json(await storage.getRecurringOrder(schedule.id));
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update recurring order" });
+    }
+  });
+
+  app.delete("/api/recurring-orders/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const schedule = await storage.getRecurringOrder(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ error: "Recurring order not found" });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to delete this recurring order" });
+      }
+
+      await storage.deleteRecurringOrder(schedule.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete recurring order" });
+    }
+  });
+
+  // Notification routes
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      res.json(await storage.getNotifications(user.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const notification = await storage.markNotificationRead(req.params.id, user.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+
+  // Checkout routes
+  app.post("/api/checkout/quote", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = checkoutQuoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid checkout items" });
+      }
+
+      const quoteLines = await loadQuoteLines(parsed.data.items);
+      if ("error" in quoteLines) {
+        return res.status(400).json({ error: quoteLines.error });
+      }
+      await attachPriceTiers(quoteLines);
+
+      const pickups = await loadPickupLocations(quoteLines, parsed.data.pickupLocationIds);
+      if ("error" in pickups) {
+        return res.status(400).json({ error: pickups.error });
+      }
+
+      const discounts = await resolvePromotions(user.id, quoteLines, parsed.data.promotionCode);
+      const { shippingRegion, shippingDistrict } = parsed.data;
+      const destination = shippingRegion ? { region: shippingRegion, district: shippingDistrict } : undefined;
+      const collectingAll = quoteLines.every(line => pickups.some(pickup => pickup.sellerId === line.product.sellerId));
+      // Without a destination the quote carries the platform rate rather than free shipping
+      const shipping = destination || collectingAll ? await quoteShipping(quoteLines, destination, pickups) : undefined;
+      res.json(buildQuote(quoteLines, discounts, shipping));
+    } catch (error) {
+      if (error instanceof PromotionError || error instanceof ShippingError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to calculate quote" });
+    }
+  });
+
+  // Promotion routes; sellers manage promotions on their own products only
+  app.get("/api/promotions", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const promotions = await storage.getPromotions(user.role === "admin" ? undefined : user.id);
+      res.json(promotions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/promotions", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const promotionData = {
+        ...req.body,
+        sellerId: user.role === "admin" ? req.body.sellerId : user.id,
+        createdBy: user.id,
+      };
+
+      const parsed = insertPromotionSchema.safeParse(promotionData);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      if (parsed.data.code && await storage.getPromotionByCode(parsed.data.code)) {
+        return res.status(400).json({ error: "Promotion code already exists" });
+      }
+
+      const promotion = await storage.createPromotion(parsed.data);
+      res.status(201).json(promotion);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create promotion" });
+    }
+  });
+
+  app.patch("/api/promotions/:id", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const promotion = await storage.getPromotion(req.params.id);
+      if (!promotion) {
+        return res.status(404).json({ error: "Promotion not found" });
+      }
+
+      if (user.role !== "admin" && promotion.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this promotion" });
+      }
+
+      // Validate the promotion as it will look after the update
+      const { id, createdAt, ...current } = promotion;
+      const parsed = insertPromotionSchema.safeParse({
+        ...current,
+        ...req.body,
+        sellerId: user.role === "admin" ? (req.body.sellerId ?? promotion.sellerId) : user.id,
+        createdBy: promotion.createdBy,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const updatedPromotion = await storage.updatePromotion(promotion.id, parsed.data);
+      res.json(updatedPromotion);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update promotion" });
+    }
+  });
+
+  // Order routes
+  app.get("/api/orders", requireAuth, async (req, res) => {
+    try {
+      const orders = await storage.getOrdersByUser(req.user.id);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  app.post("/api/orders", requireAuth, idempotent, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const { items, promotionCode } = req.body;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: "Order must contain at least one item" });
+      }
+
+      const pickupLocationIds = req.body.pickupLocationIds ?? [];
+      if (!Array.isArray(pickupLocationIds) || !pickupLocationIds.every(id => typeof id === "string")) {
+        return res.status(400).json({ error: "Invalid pickup locations" });
+      }
+
+      const shippingRegion = ghanaRegions.find(region => region === req.body.shippingRegion);
+      const shippingDistrict = typeof req.body.shippingDistrict === "string" && req.body.shippingDistrict.trim()
+        ? req.body.shippingDistrict.trim()
+        : undefined;
+
+      const order = await placeOrder(user.id, {
+        items,
+        promotionCode,
+        shippingAddress: req.body.shippingAddress,
+        shippingRegion,
+        shippingDistrict,
+        pickupLocationIds,
+      });
+
+      // Clear cart after successful order
+      await storage.clearCart(user.id);
+      
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, items: error.shortages });
+      }
+      if (error instanceof PromotionError || error instanceof ShippingError || error instanceof OrderRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof PromotionLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to create order" });
+    }
+  });
+
+  // Sellers only see their own lines and fulfillment, and not the order totals which cover other sellers' lines
+  app.get("/api/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrderDetails(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (user.role === "admin" || order.userId === user.id) {
+        return res.json(order);
+      }
+
+      const items = order.items.filter(item => item.seller.id === user.id);
+      if (items.length === 0) {
+        return res.status(403).json({ error: "Not authorized to view this order" });
+      }
+      const { id, userId, status, shippingAddress, createdAt } = order;
+      res.json({
+        id,
+        userId,
+        status,
+        shippingAddress,
+        createdAt,
+        items,
+        fulfillments: order.fulfillments
+          .filter(fulfillment => fulfillment.sellerId === user.id)
+          .map(hidePickupCode),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
+
+  // Sellers move their own fulfillments; the whole order is changed only by admins
+  app.patch("/api/orders/:id/status", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = updateOrderStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid order status" });
+      }
+
+      const { status, note } = parsed.data;
+      if (status === "confirmed" && !(await storage.hasSucceededPayment(req.params.id))) {
+        return res.status(409).json({ error: "Order cannot be confirmed until payment succeeds" });
+      }
+
+      const updatedOrder = await storage.updateOrderStatus(req.params.id, status, user.id, note);
+      if (!updatedOrder) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json(updatedOrder);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to update order status" });
+    }
+  });
+
+  app.get("/api/orders/:id/history", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (user.role !== "admin" && order.userId !== user.id) {
+        const sellerIds = await storage.getOrderSellerIds(order.id);
+        if (!sellerIds.includes(user.id)) {
+          return res.status(403).json({ error: "Not authorized to view this order" });
+        }
+      }
+
+      const history = await storage.getOrderStatusHistory(order.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch order history" });
+    }
+  });
+
+  // The invoice number is issued on first download and reused on every download after
+  app.get("/api/orders/:id/invoice.pdf", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrderDetails(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      // Sellers get a copy with only their own lines, so they never see what the order's other sellers charged
+      const fullInvoice = user.role === "admin" || order.userId === user.id;
+      const items = fullInvoice ? order.items : order.items.filter(item => item.seller.id === user.id);
+      if (!fullInvoice && items.length === 0) {
+        return res.status(403).json({ error: "Not authorized to view this invoice" });
+      }
+      const fulfillment = order.fulfillments.find(candidate => candidate.sellerId === user.id);
+      const sellerPart = fullInvoice ? undefined : {
+        subtotal: fulfillment?.subtotal
+          ?? items.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0).toFixed(2),
+        shippingFee: fulfillment?.shippingFee ?? "0",
+      };
+
+      const buyer = await storage.getUser(order.userId);
+      if (!buyer) {
+        return res.status(404).json({ error: "Buyer not found" });
+      }
+
+      const invoice = await storage.getOrCreateInvoice(order.id);
+      const pdf = await renderInvoicePdf({
+        invoice,
+        order,
+        buyer,
+        items,
+        payments: await storage.getPaymentsByOrder(order.id),
+        sellerPart,
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${formatInvoiceNumber(invoice.number)}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  });
+
+  app.get("/api/orders/:id/fulfillments", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (user.role !== "admin" && order.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this order" });
+      }
+
+      const fulfillments = await storage.getFulfillmentsByOrder(order.id);
+      res.json(fulfillments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch fulfillments" });
+    }
+  });
+
+  app.patch("/api/fulfillments/:id/status", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = updateFulfillmentStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid fulfillment status" });
+      }
+
+      const fulfillment = await storage.getFulfillment(req.params.id);
+      if (!fulfillment) {
+        return res.status(404).json({ error: "Fulfillment not found" });
+      }
+
+      if (user.role !== "admin" && fulfillment.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to update this fulfillment" });
+      }
+
+      const { status, ...details } = parsed.data;
+      if (status === "confirmed" && !(await storage.hasSucceededPayment(fulfillment.orderId))) {
+        return res.status(409).json({ error: "Fulfillment cannot be confirmed until payment succeeds" });
+      }
+
+      if (fulfillment.pickupLocationId && (status === "shipped" || status === "delivered") && user.role !== "admin") {
+        return res.status(409).json({ error: "Pickup orders are marked collected with the buyer's pickup code" });
+      }
+
+      const updatedFulfillment = await storage.updateFulfillmentStatus(fulfillment.id, status, user.id, details);
+      res.json(updatedFulfillment && hidePickupCode(updatedFulfillment));
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to update fulfillment status" });
+    }
+  });
+
+  // Delivery routes
+  app.get("/api/drivers", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const drivers = await storage.getDrivers();
+      res.json(drivers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch drivers" });
+    }
+  });
+
+  // The delivery timeline; sellers only see the deliveries for their own part of the order
+  app.get("/api/orders/:id/deliveries", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const deliveries = await storage.getDeliveriesByOrder(order.id);
+      if (user.role === "admin" || order.userId === user.id) {
+        return res.json(deliveries);
+      }
+
+      const ownFulfillmentIds = (await storage.getFulfillmentsByOrder(order.id))
+        .filter(fulfillment => fulfillment.sellerId === user.id)
+        .map(fulfillment => fulfillment.id);
+      if (ownFulfillmentIds.length === 0) {
+        return res.status(403).json({ error: "Not authorized to view this order" });
+      }
+      res.json(deliveries.filter(delivery => ownFulfillmentIds.includes(delivery.fulfillmentId)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch deliveries" });
+    }
+  });
+
+  app.post("/api/fulfillments/:id/delivery", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = scheduleDeliverySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const fulfillment = await storage.getFulfillment(req.params.id);
+      if (!fulfillment) {
+        return res.status(404).json({ error: "Fulfillment not found" });
+      }
+
+      if (user.role !== "admin" && fulfillment.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to schedule this delivery" });
+      }
+
+      if (fulfillment.pickupLocationId) {
+        return res.status(409).json({ error: "The buyer is collecting this part of the order from the yard" });
+      }
+
+      if (fulfillment.status !== "confirmed" && fulfillment.status !== "shipped") {
+        return res.status(409).json({ error: `A ${fulfillment.status} fulfillment can't be scheduled for delivery` });
+      }
+
+      if (parsed.data.driverId && !(await isDriver(parsed.data.driverId))) {
+        return res.status(400).json({ error: "Choose a registered driver" });
+      }
+
+      const delivery = await storage.scheduleDelivery(fulfillment, parsed.data, user.id);
+      res.status(201).json(delivery);
+    } catch (error) {
+      if (error instanceof DeliveryError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to schedule delivery" });
+    }
+  });
+
+  app.patch("/api/deliveries/:id/schedule", requireAuth, requireRole(["seller", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = scheduleDeliverySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const delivery = await storage.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+
+      const fulfillment = await storage.getFulfillment(delivery.fulfillmentId);
+      if (user.role !== "admin" && fulfillment?.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to reschedule this delivery" });
+      }
+
+      if (parsed.data.driverId && !(await isDriver(parsed.data.driverId))) {
+        return res.status(400).json({ error: "Choose a registered driver" });
+      }
+
+      const updatedDelivery = await storage.rescheduleDelivery(delivery.id, parsed.data, user.id);
+      res.json(updatedDelivery);
+    } catch (error) {
+      if (error instanceof DeliveryError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to reschedule delivery" });
+    }
+  });
+
+  app.get("/api/driver/deliveries", requireAuth, requireRole(["driver"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const deliveries = await storage.getDeliveriesByDriver(user.id);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch deliveries" });
+    }
+  });
+
+  app.patch("/api/deliveries/:id/status", requireAuth, requireRole(["driver", "admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = updateDeliveryStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid delivery status" });
+      }
+
+      const delivery = await storage.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+
+      if (user.role !== "admin" && delivery.driverId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to update this delivery" });
+      }
+
+      const updatedDelivery = await storage.updateDeliveryStatus(delivery.id, parsed.data.status, user.id, parsed.data.note);
+      res.json(updatedDelivery);
+    } catch (error) {
+      if (error instanceof InvalidDeliveryTransitionError || error instanceof DeliveryError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to update delivery status" });
+    }
+  });
+
+  // Proof of delivery: a photo of the goods at the site, who took them and optionally their signature
+  app.post(
+    "/api/deliveries/:id/proof",
+    requireAuth,
+    requireRole(["driver", "admin"]),
+    acceptImages(imageUpload.fields([{ name: "photo", maxCount: 1 }, { name: "signature", maxCount: 1 }])),
+    async (req, res) => {
+      try {
+        const user = currentUser(req);
+        const parsed = deliveryProofSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.errors[0].message });
+        }
+
+        const files = (req.files as Record<string, Express.Multer.File[]> | undefined) || {};
+        const photo = files.photo?.[0];
+        if (!photo) {
+          return res.status(400).json({ error: "A photo of the delivered goods is required" });
+        }
+
+        const delivery = await storage.getDelivery(req.params.id);
+        if (!delivery) {
+          return res.status(404).json({ error: "Delivery not found" });
+        }
+
+        if (user.role !== "admin" && delivery.driverId !== user.id) {
+          return res.status(403).json({ error: "Not authorized to complete this delivery" });
+        }
+
+        const signature = files.signature?.[0];
+        const updatedDelivery = await storage.completeDelivery(delivery.id, {
+          recipientName: parsed.data.recipientName,
+          note: parsed.data.note,
+          proofPhotoUrl: `/uploads/${photo.filename}`,
+          signatureUrl: signature ? `/uploads/${signature.filename}` : null,
+        }, user.id);
+        res.json(updatedDelivery);
+      } catch (error) {
+        if (error instanceof InvalidDeliveryTransitionError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: "Failed to record proof of delivery" });
+      }
+    },
+  );
+
+  // Payment routes
+  app.get("/api/orders/:id/payments", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (user.role !== "admin" && order.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this order" });
+      }
+
+      const payments = await storage.getPaymentsByOrder(order.id);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/orders/:id/payments", requireAuth, idempotent, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = startPaymentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (order.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to pay for this order" });
+      }
+
+      if (order.status !== "pending" || await storage.hasSucceededPayment(order.id)) {
+        return res.status(409).json({ error: "Order is not awaiting payment" });
+      }
+
+      const { payment, redirectUrl } = await startPayment(order, parsed.data.method, parsed.data.phoneNumber);
+      res.status(201).json({ ...payment, redirectUrl });
+    } catch (error) {
+      if (error instanceof PaymentInProgressError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to start payment" });
+    }
+  });
+
+  // Called by payment providers, so authenticated by signature rather than session
+  app.post("/api/payments/webhooks/:provider", async (req, res) => {
+    try {
+      const rawBody = Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.from("");
+      const payment = await handlePaymentWebhook(req.params.provider, rawBody, req.headers, req.body);
+      if (!payment) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof InvalidWebhookSignatureError) {
+        return res.status(401).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  });
+
+  // Return routes
+  app.post("/api/orders/:id/returns", requireAuth, requireOrderBuyer, acceptImages(imageUpload.array('photos', 5)), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      // Multipart forms send the item list as a JSON string
+      const items = typeof req.body.items === "string" ? JSON.parse(req.body.items) : req.body.items;
+      const parsed = createReturnSchema.safeParse({ ...req.body, items });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const photoUrls = files.map(file => `/uploads/${file.filename}`);
+
+      const returnRequest = await storage.createReturnRequest(order.id, user.id, parsed.data, photoUrls);
+      res.status(201).json(returnRequest);
+    } catch (error) {
+      if (error instanceof ReturnRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to create return request" });
+    }
+  });
+
+  app.get("/api/returns", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      let returns;
+      if (user.role === "admin") {
+        returns = await storage.getReturnRequests({});
+      } else if (user.role === "seller") {
+        returns = await storage.getReturnRequests({ sellerId: user.id });
+      } else {
+        returns = await storage.getReturnRequests({ buyerId: user.id });
+      }
+      res.json(returns);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch returns" });
+    }
+  });
+
+  app.get("/api/returns/:id", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const returnRequest = await storage.getReturnRequest(req.params.id);
+      if (!returnRequest) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+
+      if (user.role !== "admin" && returnRequest.buyerId !== user.id && returnRequest.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this return" });
+      }
+
+      res.json(returnRequest);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch return" });
+    }
+  });
+
+  app.patch("/api/returns/:id/respond", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = returnDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Decision must be accepted or rejected" });
+      }
+
+      const returnRequest = await storage.getReturnRequest(req.params.id);
+      if (!returnRequest) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+
+      if (returnRequest.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to respond to this return" });
+      }
+
+      const updated = await storage.decideReturn(returnRequest.id, parsed.data.decision, user.id, false, parsed.data.note);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ReturnRequestError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to respond to return" });
+    }
+  });
+
+  app.post("/api/returns/:id/escalate", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const returnRequest = await storage.getReturnRequest(req.params.id);
+      if (!returnRequest) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+
+      if (returnRequest.buyerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to escalate this return" });
+      }
+
+      const updated = await storage.escalateReturn(returnRequest.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ReturnRequestError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to escalate return" });
+    }
+  });
+
+  app.patch("/api/admin/returns/:id/resolve", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = returnDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Decision must be accepted or rejected" });
+      }
+
+      const updated = await storage.decideReturn(req.params.id, parsed.data.decision, user.id, true, parsed.data.note);
+      if (!updated) {
+        return res.status(404).json({ error: "Return not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ReturnRequestError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to resolve return" });
+    }
+  });
+
+  // RFQ routes; buyers ask for prices on bulk lists and sellers answer with quotes
+  app.post("/api/rfqs", requireAuth, requireRole(["buyer", "client"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = createRfqSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      if (parsed.data.projectId) {
+        const project = await storage.getProject(parsed.data.projectId);
+        if (!project || project.clientId !== user.id) {
+          return res.status(400).json({ error: "Project not found" });
+        }
+      }
+
+      const rfq = await storage.createRfq(user.id, parsed.data);
+      res.status(201).json(rfq);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create RFQ" });
+    }
+  });
+
+  app.get("/api/rfqs", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const status = rfqStatusEnum.enumValues.find(value => value === req.query.status);
+      let rfqs;
+      if (user.role === "seller") {
+        rfqs = await storage.getRfqsForSeller(user.id);
+      } else if (user.role === "admin") {
+        rfqs = await storage.getRfqs({ status });
+      } else {
+        rfqs = await storage.getRfqs({ buyerId: user.id, status });
+      }
+      res.json(rfqs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch RFQs" });
     }
   });
 
-  app.put("/api/cart/:id", requireAuth, async (req, res) => {
+  // Sellers see open RFQs and their own quotes only, never a competitor's
+  app.get("/api/rfqs/:id", requireAuth, async (req, res) => {
     try {
-      const { quantity } = req.body;
-      const cartItem = await storage.updateCartItem(req.params.id, quantity);
-      if (!cartItem) {
-        return res.status(404).json({ error: "Cart item not found" });
+      const user = currentUser(req);
+      const rfq = await storage.getRfq(req.params.id);
+      if (!rfq) {
+        return res.status(404).json({ error: "RFQ not found" });
       }
-      res.json(cartItem);
+
+      if (user.role === "seller") {
+        const quotes = rfq.quotes.filter(quote => quote.sellerId === user.id);
+        if (rfq.status !== "open" && quotes.length === 0) {
+          return res.status(403).json({ error: "Not authorized to view this RFQ" });
+        }
+        return res.json({ ...rfq, quotes });
+      }
+
+      if (user.role !== "admin" && rfq.buyerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to view this RFQ" });
+      }
+      res.json(rfq);
     } catch (error) {
-      res.status(400).json({ error: "Failed to update cart item" });
+      res.status(500).json({ error: "Failed to fetch RFQ" });
     }
   });
 
-  app.delete("/api/cart/:id", requireAuth, async (req, res) => {
+  app.post("/api/rfqs/:id/quotes", requireAuth, requireRole(["seller"]), async (req, res) => {
     try {
-      await storage.removeFromCart(req.params.id);
-      res.sendStatus(204);
+      const user = currentUser(req);
+      const parsed = createRfqQuoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const quote = await storage.createRfqQuote(req.params.id, user.id, parsed.data);
+      res.status(201).json(quote);
     } catch (error) {
-      res.status(500).json({ error: "Failed to remove from cart" });
+      if (error instanceof RfqError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to submit quote" });
     }
   });
 
-  // Order routes
-  app.get("/api/orders", requireAuth, async (req, res) => {
+  app.post("/api/rfqs/:id/quotes/:quoteId/withdraw", requireAuth, requireRole(["seller"]), async (req, res) => {
     try {
-      const orders = await storage.getOrdersByUser(req.user.id);
-      res.json(orders);
+      const user = currentUser(req);
+      const rfq = await storage.getRfq(req.params.id);
+      const quote = rfq?.quotes.find(candidate => candidate.id === req.params.quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      if (quote.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to withdraw this quote" });
+      }
+
+      const withdrawn = await storage.withdrawRfqQuote(quote.id);
+      if (!withdrawn) {
+        return res.status(409).json({ error: `Quote is already ${quote.status}` });
+      }
+      res.json(withdrawn);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      res.status(400).json({ error: "Failed to withdraw quote" });
     }
   });
 
-  app.post("/api/orders", requireAuth, async (req, res) => {
+  // Accepting a quote places an order for its lines at the quoted prices
+  app.post("/api/rfqs/:id/quotes/:quoteId/accept", requireAuth, idempotent, async (req, res) => {
     try {
-      const { shippingAddress, items } = req.body;
-      
-      let total = 0;
-      for (const item of items) {
-        const product = await storage.getProduct(item.productId);
-        if (!product) {
-          return res.status(400).json({ error: `Product ${item.productId} not found` });
+      const user = currentUser(req);
+      const rfq = await storage.getRfq(req.params.id);
+      if (!rfq) {
+        return res.status(404).json({ error: "RFQ not found" });
+      }
+
+      if (rfq.buyerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to accept quotes on this RFQ" });
+      }
+
+      const quote = rfq.quotes.find(candidate => candidate.id === req.params.quoteId);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      const productIds = quote.lines.map(line => line.productId);
+      const products = await storage.getProductsByIds(productIds);
+      const variants = await storage.getVariantsByProducts(productIds);
+
+      const quoteLines: QuoteLineInput[] = [];
+      for (const line of quote.lines) {
+        const product = products.find(candidate => candidate.id === line.productId);
+        if (!product || product.archivedAt || !product.isActive) {
+          return res.status(409).json({ error: `Product ${line.productId} is no longer available` });
+        }
+        const variant = line.variantId ? variants.find(candidate => candidate.id === line.variantId) : undefined;
+        if (line.variantId && (!variant || variant.archivedAt || !variant.isActive)) {
+          return res.status(409).json({ error: `Variant ${line.variantId} of ${product.name} is no longer available` });
         }
-        total += parseFloat(product.price) * item.quantity;
+        quoteLines.push({ product, variant, quantity: line.quantity, quotedPrice: line.unitPrice });
       }
 
+      // Delivery is priced from the seller's zones for where the RFQ asked for it, as at checkout
+      const destination = rfq.deliveryRegion
+        ? { region: rfq.deliveryRegion as GhanaRegion, district: rfq.deliveryDistrict ?? undefined }
+        : undefined;
+      const shipping = await quoteShipping(quoteLines, destination);
+      const priced = buildQuote(quoteLines, [], shipping);
+
       const orderData = {
-        userId: req.user.id,
-        total: total.toString(),
-        shippingAddress,
+        userId: user.id,
+        ...quoteToOrderTotals(priced),
+        shippingAddress: rfq.deliveryAddress,
+        shippingRegion: rfq.deliveryRegion,
+        shippingDistrict: rfq.deliveryDistrict,
         status: "pending" as const,
       };
 
-      const itemsWithPrices = await Promise.all(
-        items.map(async (item: any) => {
-          const product = await storage.getProduct(item.productId);
-          return {
-            ...item,
-            price: product!.price,
-          };
-        })
-      );
-
-      const order = await storage.createOrder(orderData, itemsWithPrices);
+      const items = quote.lines.map(line => ({
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        price: line.unitPrice,
+      }));
 
-      // Clear cart after successful order
-      await storage.clearCart(req.user.id);
-      
+      const order = await storage.acceptRfqQuote(rfq.id, quote.id, orderData, items, toFulfillmentShipping(shipping));
       res.status(201).json(order);
     } catch (error) {
-      res.status(400).json({ error: "Failed to create order" });
+      if (error instanceof RfqError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof ShippingError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, items: error.shortages });
+      }
+      res.status(400).json({ error: "Failed to accept quote" });
+    }
+  });
+
+  app.post("/api/rfqs/:id/close", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const rfq = await storage.getRfq(req.params.id);
+      if (!rfq) {
+        return res.status(404).json({ error: "RFQ not found" });
+      }
+
+      if (user.role !== "admin" && rfq.buyerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to close this RFQ" });
+      }
+
+      const closed = await storage.closeRfq(rfq.id);
+      if (!closed) {
+        return res.status(409).json({ error: `RFQ is already ${rfq.status}` });
+      }
+      res.json(closed);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to close RFQ" });
     }
   });
 
@@ -409,6 +2113,26 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Admins grant roles users can't pick for themselves, such as driver
+  app.patch("/api/admin/users/:id/role", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const role = roleEnum.enumValues.find(value => value === req.body.role);
+      if (!role) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+
+      const updatedUser = await storage.updateUser(req.params.id, { role });
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+
   app.get("/api/admin/stats", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
@@ -432,7 +2156,7 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/seller/products", requireAuth, requireRole(["seller"]), async (req, res) => {
     try {
       const products = await storage.getProductsBySeller(req.user.id);
-      res.json(products);
+      res.json(await withVariants(products, true));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch seller products" });
     }
@@ -441,12 +2165,353 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/seller/orders", requireAuth, requireRole(["seller"]), async (req, res) => {
     try {
       const orders = await storage.getOrdersBySeller(req.user.id);
-      res.json(orders);
+      res.json(orders.map(hidePickupCode));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch seller orders" });
     }
   });
 
+  // Delivery zones; where each seller delivers and what they charge for it
+  app.get("/api/seller/delivery-zones", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const zones = await storage.getDeliveryZonesBySeller(user.id);
+      res.json(zones);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch delivery zones" });
+    }
+  });
+
+  app.post("/api/seller/delivery-zones", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = insertDeliveryZoneSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const zone = await storage.createDeliveryZone(user.id, parsed.data);
+      res.status(201).json(zone);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create delivery zone" });
+    }
+  });
+
+  app.patch("/api/seller/delivery-zones/:id", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const zone = await storage.getDeliveryZone(req.params.id);
+      if (!zone) {
+        return res.status(404).json({ error: "Delivery zone not found" });
+      }
+
+      if (zone.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this delivery zone" });
+      }
+
+      // Validate the zone as it will look after the update
+      const { id, sellerId, createdAt, ...current } = zone;
+      const parsed = insertDeliveryZoneSchema.safeParse({ ...current, ...req.body });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const updated = await storage.updateDeliveryZone(zone.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update delivery zone" });
+    }
+  });
+
+  app.delete("/api/seller/delivery-zones/:id", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const zone = await storage.getDeliveryZone(req.params.id);
+      if (!zone) {
+        return res.status(404).json({ error: "Delivery zone not found" });
+      }
+
+      if (zone.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to delete this delivery zone" });
+      }
+
+      await storage.deleteDeliveryZone(zone.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete delivery zone" });
+    }
+  });
+
+  // Pickup locations; the yards a seller lets buyers collect from
+  app.get("/api/pickup-locations", requireAuth, async (req, res) => {
+    try {
+      const sellerIds = typeof req.query.sellerIds === "string" ? req.query.sellerIds.split(",").filter(Boolean) : [];
+      const locations = await storage.getActivePickupLocations(sellerIds);
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pickup locations" });
+    }
+  });
+
+  app.get("/api/seller/pickup-locations", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const locations = await storage.getPickupLocationsBySeller(user.id);
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pickup locations" });
+    }
+  });
+
+  app.post("/api/seller/pickup-locations", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = insertPickupLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const location = await storage.createPickupLocation(user.id, parsed.data);
+      res.status(201).json(location);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create pickup location" });
+    }
+  });
+
+  app.patch("/api/seller/pickup-locations/:id", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const location = await storage.getPickupLocation(req.params.id);
+      if (!location) {
+        return res.status(404).json({ error: "Pickup location not found" });
+      }
+
+      if (location.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to edit this pickup location" });
+      }
+
+      const parsed = insertPickupLocationSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const updated = await storage.updatePickupLocation(location.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to update pickup location" });
+    }
+  });
+
+  app.delete("/api/seller/pickup-locations/:id", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const location = await storage.getPickupLocation(req.params.id);
+      if (!location) {
+        return res.status(404).json({ error: "Pickup location not found" });
+      }
+
+      if (location.sellerId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to delete this pickup location" });
+      }
+
+      await storage.deletePickupLocation(location.id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete pickup location" });
+    }
+  });
+
+  // The buyer reads out their code at the counter and the seller hands the order over
+  app.post("/api/seller/pickups/collect", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = collectPickupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const fulfillment = await storage.collectPickup(user.id, parsed.data.code, user.id);
+      if (!fulfillment) {
+        return res.status(404).json({ error: "No confirmed order is waiting for pickup with that code" });
+      }
+      res.json(hidePickupCode(fulfillment));
+    } catch (error) {
+      res.status(400).json({ error: "Failed to record pickup" });
+    }
+  });
+
+  // Seller balance and payout routes
+  app.get("/api/seller/balance", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const balance = await storage.getSellerBalance(user.id);
+      res.json(balance);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch balance" });
+    }
+  });
+
+  app.get("/api/seller/ledger", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const entries = await storage.getSellerLedger(user.id);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch ledger" });
+    }
+  });
+
+  app.get("/api/seller/payouts", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const payouts = await storage.getPayoutsBySeller(user.id);
+      res.json(payouts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payouts" });
+    }
+  });
+
+  app.post("/api/seller/payouts", requireAuth, requireRole(["seller"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = requestPayoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const payout = await storage.requestPayout({
+        ...parsed.data,
+        sellerId: user.id,
+        amount: parsed.data.amount.toFixed(2),
+      });
+      res.status(201).json(payout);
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(409).json({ error: error.message, available: error.available });
+      }
+      res.status(400).json({ error: "Failed to request payout" });
+    }
+  });
+
+  // Review moderation; hidden reviews drop out of the listing and its rating
+  app.get("/api/admin/reviews", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const status = reviewStatusEnum.enumValues.find(value => value === req.query.status);
+      res.json(await storage.getReviews(status));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  app.patch("/api/admin/reviews/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const parsed = moderateReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const review = await storage.moderateReview(req.params.id, parsed.data.status, user.id, parsed.data.note);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      res.json(review);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to moderate review" });
+    }
+  });
+
+  // Admin payout and commission routes
+  app.get("/api/admin/payouts", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const status = payoutStatusEnum.enumValues.find(value => value === req.query.status);
+      const payouts = await storage.getPayouts(status);
+      res.json(payouts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payouts" });
+    }
+  });
+
+  app.patch("/api/admin/payouts/:id/review", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const { status, note } = req.body;
+      if (status !== "approved" && status !== "rejected") {
+        return res.status(400).json({ error: "Status must be approved or rejected" });
+      }
+
+      const payout = await storage.reviewPayout(req.params.id, status, user.id, note);
+      if (!payout) {
+        return res.status(404).json({ error: "Payout not found" });
+      }
+      res.json(payout);
+    } catch (error) {
+      if (error instanceof InvalidPayoutTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to review payout" });
+    }
+  });
+
+  app.patch("/api/admin/payouts/:id/paid", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const { reference } = req.body;
+      if (!reference || typeof reference !== "string") {
+        return res.status(400).json({ error: "Transfer reference is required" });
+      }
+
+      const payout = await storage.markPayoutPaid(req.params.id, user.id, reference);
+      if (!payout) {
+        return res.status(404).json({ error: "Payout not found" });
+      }
+      res.json(payout);
+    } catch (error) {
+      if (error instanceof InvalidPayoutTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Failed to mark payout as paid" });
+    }
+  });
+
+  app.get("/api/admin/commission-rules", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const rules = await storage.getCommissionRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch commission rules" });
+    }
+  });
+
+  app.post("/api/admin/commission-rules", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = insertCommissionRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+      if (!parsed.data.sellerId && !parsed.data.category) {
+        return res.status(400).json({ error: "A rule needs a seller, a category or both" });
+      }
+
+      const rule = await storage.createCommissionRule(parsed.data);
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(400).json({ error: "Failed to create commission rule" });
+    }
+  });
+
+  app.delete("/api/admin/commission-rules/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const success = await storage.deleteCommissionRule(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Commission rule not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete commission rule" });
+    }
+  });
+
   // User role update route
   app.patch("/api/user/role", requireAuth, async (req, res) => {
     try {
@@ -525,6 +2590,13 @@ export function registerRoutes(app: Express): Server {
       if (req.body.deliveryDate && req.body.deliveryDate.trim()) {
         inventoryData.deliveryDate = new Date(req.body.deliveryDate);
       }
+
+      if (req.body.unit !== undefined) {
+        inventoryData.unit = parseUnit(String(req.body.unit));
+        if (!inventoryData.unit) {
+          return res.status(400).json({ error: `Unknown unit "${req.body.unit}"` });
+        }
+      }
       
       const item = await storage.updateInventoryItem(req.params.id, inventoryData);
       if (!item) {
@@ -548,6 +2620,49 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // How many of a listing's sale units cover an inventory line, e.g. 2 tonnes of cement in 50kg bags
+  app.get("/api/inventory/:id/compare", requireAuth, async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const item = await storage.getInventoryItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+
+      const project = await storage.getProject(item.projectId);
+      if (user.role !== "admin" && project?.clientId !== user.id) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      const product = await storage.getProduct(String(req.query.productId ?? ""));
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const unit = parseUnit(item.unit);
+      if (!unit) {
+        return res.status(400).json({ error: `Unknown unit "${item.unit}" on inventory item` });
+      }
+
+      const saleUnits = saleUnitsFor(product, item.quantity, unit);
+      res.json({
+        inventoryItemId: item.id,
+        productId: product.id,
+        quantity: item.quantity,
+        unit,
+        productUnit: product.unit as UnitCode,
+        quantityPerSaleUnit: quantityPerSaleUnit(product, unit),
+        saleUnits,
+        estimatedCost: (saleUnits * parseFloat(product.price)).toFixed(2),
+      });
+    } catch (error) {
+      if (error instanceof UnitConversionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to compare inventory item" });
+    }
+  });
+
   // Project Expenses routes
   app.get("/api/projects/:projectId/expenses", requireAuth, async (req, res) => {
     try {
@@ -585,7 +2700,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post("/api/projects/:projectId/expenses", requireAuth, requireRole(["client", "admin"]), async (req, res) => {
+  app.post("/api/projects/:projectId/expenses", requireAuth, requireRole(["client", "admin"]), idempotent, async (req, res) => {
     try {
       const expenseData = {
         ...req.body,
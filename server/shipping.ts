@@ -0,0 +1,115 @@
+import type { DeliveryZone, GhanaRegion, PickupLocation, Product } from "@shared/schema";
+import { storage, type FulfillmentShipping } from "./storage";
+import {
+  FLAT_SHIPPING_FEE, FREE_SHIPPING_THRESHOLD, roundMoney, unitPriceFor,
+  type QuoteLineInput, type SellerShipping,
+} from "./pricing";
+import { quantityPerSaleUnit, UnitConversionError } from "./units";
+
+export interface ShippingDestination {
+  region: GhanaRegion;
+  district?: string;
+}
+
+// Thrown when a seller can't deliver an order to the buyer's address, with a message safe to show the buyer
+export class ShippingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShippingError";
+  }
+}
+
+// Kg or m³ in one sale unit: the seller's own figure, otherwise what the unit or pack size implies
+function perSaleUnit(product: Product, measure: "kg" | "m3"): number {
+  const stated = measure === "kg" ? product.shippingWeight : product.shippingVolume;
+  if (stated) {
+    return parseFloat(stated);
+  }
+  try {
+    return quantityPerSaleUnit(product, measure);
+  } catch (error) {
+    if (error instanceof UnitConversionError) {
+      throw new ShippingError(`${product.name} has no shipping ${measure === "kg" ? "weight" : "volume"}, so its delivery can't be priced`);
+    }
+    throw error;
+  }
+}
+
+// A zone for the buyer's district wins over one covering the whole region
+export function matchZone(zones: DeliveryZone[], destination: ShippingDestination): DeliveryZone | undefined {
+  const inRegion = zones.filter(zone => zone.region === destination.region);
+  const district = destination.district?.trim().toLowerCase();
+  return (district ? inRegion.find(zone => zone.district?.trim().toLowerCase() === district) : undefined)
+    ?? inRegion.find(zone => !zone.district);
+}
+
+export function zoneFee(zone: DeliveryZone, lines: QuoteLineInput[]): number {
+  const subtotal = lines.reduce((sum, line) => sum + unitPriceFor(line) * line.quantity, 0);
+  if (zone.freeDeliveryThreshold !== null && subtotal >= parseFloat(zone.freeDeliveryThreshold)) {
+    return 0;
+  }
+
+  const baseFee = parseFloat(zone.baseFee);
+  if (zone.rateType === "flat") {
+    return roundMoney(baseFee);
+  }
+  const measure = zone.rateType === "weight" ? "kg" : "m3";
+  const load = lines.reduce((sum, line) => sum + perSaleUnit(line.product, measure) * line.quantity, 0);
+  return roundMoney(baseFee + parseFloat(zone.rate ?? "0") * load);
+}
+
+/**
+ * Prices delivery for each seller's part of the order. Parts collected from the seller's yard are free.
+ * Sellers who haven't set up delivery zones charge the platform rate; sellers who have must have a
+ * zone covering the destination.
+ */
+export async function quoteShipping(
+  lines: QuoteLineInput[],
+  destination: ShippingDestination | undefined,
+  pickups: PickupLocation[] = [],
+): Promise<SellerShipping[]> {
+  const linesBySeller = new Map<string, QuoteLineInput[]>();
+  for (const line of lines) {
+    const sellerId = line.product.sellerId;
+    linesBySeller.set(sellerId, [...(linesBySeller.get(sellerId) || []), line]);
+  }
+
+  const zones = await storage.getActiveDeliveryZones(Array.from(linesBySeller.keys()));
+  const shipping: SellerShipping[] = [];
+  for (const [sellerId, sellerLines] of Array.from(linesBySeller)) {
+    const pickup = pickups.find(location => location.sellerId === sellerId);
+    if (pickup) {
+      shipping.push({ sellerId, zoneId: null, zoneName: null, pickupLocationId: pickup.id, fee: 0 });
+      continue;
+    }
+    if (!destination) {
+      throw new ShippingError("Choose the region the order is delivered to");
+    }
+
+    const sellerZones = zones.filter(zone => zone.sellerId === sellerId);
+    if (sellerZones.length === 0) {
+      const subtotal = sellerLines.reduce((sum, line) => sum + unitPriceFor(line) * line.quantity, 0);
+      const fee = subtotal > FREE_SHIPPING_THRESHOLD ? 0 : FLAT_SHIPPING_FEE;
+      shipping.push({ sellerId, zoneId: null, zoneName: null, pickupLocationId: null, fee });
+      continue;
+    }
+
+    const zone = matchZone(sellerZones, destination);
+    if (!zone) {
+      const place = destination.district ? `${destination.district}, ${destination.region}` : destination.region;
+      throw new ShippingError(`${sellerLines[0].product.name} can't be delivered to ${place}`);
+    }
+    shipping.push({ sellerId, zoneId: zone.id, zoneName: zone.name, pickupLocationId: null, fee: zoneFee(zone, sellerLines) });
+  }
+  return shipping;
+}
+
+// Column values for persisting each seller's delivery charge, or pickup, on their fulfillment
+export function toFulfillmentShipping(shipping: SellerShipping[]): FulfillmentShipping[] {
+  return shipping.map(entry => ({
+    sellerId: entry.sellerId,
+    fee: entry.fee.toFixed(2),
+    deliveryZoneId: entry.zoneId,
+    pickupLocationId: entry.pickupLocationId,
+  }));
+}
@@ -1,19 +1,274 @@
 import { 
-  users, products, cartItems, orders, orderItems, projects, milestones, progressImages, projectInventory, projectExpenses,
-  type User, type InsertUser, type Product, type InsertProduct, 
+  formatVariantOptions, users, products, productPriceTiers, productVariants, cartItems, orders, orderItems, orderFulfillments, orderStatusHistory, orderStatusTransitions, invoices, deliveryZones, pickupLocations, deliveries, deliveryEvents, deliveryStatusTransitions, payments, paymentAttempts, idempotencyKeys,
+  promotions, promotionRedemptions, commissionRules, ledgerTransactions, ledgerEntries, payouts, returnRequests, returnItems, returnPhotos, productReviews, reviewPhotos, rfqs, rfqItems, rfqQuotes, rfqQuoteLines, savedLists, savedListItems, recurringOrders, recurringOrderItems, notifications, projects, milestones, progressImages, projectInventory, projectExpenses,
+  type User, type InsertUser, type Product, type InsertProduct, type ProductPriceTier, type ProductVariant, type InsertProductVariant,
   type CartItem, type InsertCartItem, type Order, type InsertOrder,
+  type OrderStatus, type OrderStatusHistory, type OrderItem, type OrderFulfillment, type Invoice,
+  type DeliveryZone, type InsertDeliveryZone, type PickupLocation, type InsertPickupLocation, type Delivery, type DeliveryEvent, type DeliveryStatus, type ScheduleDelivery,
+  type Promotion, type InsertPromotion, type CommissionRule, type InsertCommissionRule, type LedgerTransaction, type LedgerEntry,
+  type Payout, type InsertPayout, type PayoutStatus,
+  type ReturnRequest, type ReturnItem, type ReturnPhoto, type CreateReturn,
+  type ProductReview, type ReviewPhoto, type ReviewStatus, type CreateReview,
+  type Rfq, type RfqItem, type RfqQuote, type RfqQuoteLine, type RfqStatus, type CreateRfq, type CreateRfqQuote,
+  type SavedList, type InsertSavedList, type SavedListItem, type InsertSavedListItem,
+  type RecurringOrder, type RecurringOrderItem, type CreateRecurringOrder, type UpdateRecurringOrder,
+  type Notification, type InsertNotification,
+  type IdempotencyKey, type Payment, type InsertPayment, type PaymentStatus, type PaymentAttempt, type InsertPaymentAttempt,
   type Project, type InsertProject, type Milestone, type InsertMilestone,
   type ProgressImage, type InsertProgressImage, type ProjectInventory, type InsertProjectInventory,
   type ProjectExpense, type InsertProjectExpense
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, like, sql } from "drizzle-orm";
+import {
+  LEDGER_ACCOUNTS, resolveCommissionRate, buildSaleEntries, buildRefundEntries, buildPayoutEntries,
+  toCents, fromCents, type LedgerEntryInput,
+} from "./ledger";
+import { paidForUnits } from "./pricing";
+import type { SellerStats } from "./reputation";
+import { eq, ne, and, or, desc, like, sql, inArray, isNull, gt, lt, lte, type SQL } from "drizzle-orm";
+import { randomInt } from "crypto";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A seller's share of an order: their fulfillment, their line items and the buyer's delivery details
+export interface SellerFulfillment extends OrderFulfillment {
+  order: Pick<Order, "id" | "userId" | "shippingAddress" | "createdAt">;
+  items: OrderItem[];
+}
+
+// A cart line with what the cart needs to show it, loaded in one query
+export interface CartItemWithProduct extends CartItem {
+  product: Product;
+  variant: ProductVariant | null;
+  seller: Pick<User, "id" | "username" | "businessName">;
+}
+
+// A saved list line with the listing it points at, which may have been delisted since it was saved
+export interface SavedListItemWithProduct extends SavedListItem {
+  product: Product;
+  variant: ProductVariant | null;
+}
+
+export interface SavedListDetails extends SavedList {
+  items: SavedListItemWithProduct[];
+}
+
+export interface RecurringOrderItemWithProduct extends RecurringOrderItem {
+  product: Product;
+  variant: ProductVariant | null;
+}
+
+export interface RecurringOrderDetails extends RecurringOrder {
+  items: RecurringOrderItemWithProduct[];
+}
+
+// A schedule line as stored: what to order and the unit price the user agreed to
+export interface RecurringOrderLineInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  expectedPrice: string;
+}
+
+// An order line with the listing and seller details needed to print it
+export interface OrderItemWithProduct extends OrderItem {
+  product: Product;
+  variant: ProductVariant | null;
+  seller: Pick<User, "id" | "username" | "email" | "businessName">;
+}
+
+// What an order line looked like when it was bought: its snapshot, or the live listing on older rows
+export interface OrderLine extends OrderItem {
+  product: { name: string; description: string; imageUrl: string | null; unit: string };
+  seller: { id: string; name: string; email: string };
+}
+
+export interface OrderDetails extends Order {
+  items: OrderLine[];
+  fulfillments: OrderFulfillment[];
+}
+
+// A delivery with its timeline and the driver making it, as the buyer and seller see it
+export interface DeliveryWithTimeline extends Delivery {
+  driver: Pick<User, "id" | "username" | "businessName"> | null;
+  events: DeliveryEvent[];
+}
+
+// A stop on a driver's run: where it's going and what to hand over
+export interface DriverDelivery extends Delivery {
+  order: Pick<Order, "id" | "shippingAddress" | "shippingRegion" | "shippingDistrict">;
+  items: Pick<OrderItem, "id" | "productName" | "quantity">[];
+}
+
+export interface DeliveryProof {
+  recipientName: string;
+  proofPhotoUrl: string;
+  signatureUrl: string | null;
+  note?: string;
+}
+
+// Thrown when a delivery can't be booked or rebooked, with a message safe to show the user
+export class DeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryError";
+  }
+}
+
+// Thrown when a delivery status change is not allowed from its current status
+export class InvalidDeliveryTransitionError extends Error {
+  constructor(public from: DeliveryStatus, public to: DeliveryStatus) {
+    super(`Cannot change delivery status from ${from} to ${to}`);
+    this.name = "InvalidDeliveryTransitionError";
+  }
+}
+
+export interface StockShortage {
+  productId: string;
+  variantId?: string;
+  requested: number;
+  available: number;
+}
+
+// Thrown by createPayment while an earlier payment for the same order is still with the provider
+export class PaymentInProgressError extends Error {
+  constructor() {
+    super("A payment for this order is already in progress");
+    this.name = "PaymentInProgressError";
+  }
+}
+
+export interface SellerBalance {
+  earned: string; // lifetime sales net of commission
+  refunded: string;
+  paidOut: string;
+  balance: string; // currently owed to the seller
+  pendingPayouts: string; // requested or approved but not yet paid
+  available: string; // what can still be requested
+}
+
+// Thrown by requestPayout when the seller asks for more than their available balance
+export class InsufficientBalanceError extends Error {
+  constructor(public available: string) {
+    super(`Payout exceeds available balance of ${available}`);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+// Thrown when a payout review doesn't follow requested -> approved -> paid
+export class InvalidPayoutTransitionError extends Error {
+  constructor(public from: PayoutStatus, public to: PayoutStatus) {
+    super(`Cannot change payout status from ${from} to ${to}`);
+    this.name = "InvalidPayoutTransitionError";
+  }
+}
+
+export interface ReturnRequestDetails extends ReturnRequest {
+  items: ReturnItem[];
+  photos: ReturnPhoto[];
+}
+
+// Thrown when a return can't be opened or moved on, with a message safe to show the user
+export class ReturnRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnRequestError";
+  }
+}
+
+// A review as shown on the listing and in the moderation queue
+export interface ProductReviewDetails extends ProductReview {
+  product: Pick<Product, "id" | "name" | "sellerId">;
+  reviewer: Pick<User, "id" | "username" | "businessName">;
+  photos: ReviewPhoto[];
+}
+
+export interface ProductRating {
+  productId: string;
+  average: number;
+  count: number;
+}
+
+// Thrown when a review can't be left, with a message safe to show the buyer
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+export interface RfqDetails extends Rfq {
+  items: RfqItem[];
+  quotes: (RfqQuote & { lines: RfqQuoteLine[] })[];
+}
+
+// Thrown when an RFQ or one of its quotes can't be created or moved on, with a message safe to show the user
+export class RfqError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RfqError";
+  }
+}
+
+// A line as checkout priced it; the discount is the line's share of the order's promotion
+export interface OrderItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  price: string;
+  discount?: string | null;
+  sellerFundedDiscount?: boolean;
+}
+
+export interface PromotionRedemptionInput {
+  promotionId: string;
+  amount: string;
+}
+
+// The delivery charge for one seller's part of an order, or the yard the buyer collects it from
+export interface FulfillmentShipping {
+  sellerId: string;
+  fee: string;
+  deliveryZoneId: string | null;
+  pickupLocationId: string | null;
+}
+
+// Without look-alike characters, so the code reads back reliably over a counter
+const PICKUP_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generatePickupCode(): string {
+  return Array.from({ length: 6 }, () => PICKUP_CODE_ALPHABET[randomInt(PICKUP_CODE_ALPHABET.length)]).join("");
+}
+
+// Thrown by createOrder when a promotion ran out of uses between quoting and placing the order
+export class PromotionLimitError extends Error {
+  constructor(public promotionId: string) {
+    super("A promotion on this order is no longer available");
+    this.name = "PromotionLimitError";
+  }
+}
+
+// Thrown when an order or fulfillment status change is not allowed from its current status
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`Cannot change order status from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+// Thrown by createOrder when one or more lines ask for more than is in stock
+export class InsufficientStockError extends Error {
+  constructor(public shortages: StockShortage[]) {
+    super("Insufficient stock for one or more items");
+    this.name = "InsufficientStockError";
+  }
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -25,26 +280,204 @@ export interface IStorage {
   
   // Products
   getProduct(id: string): Promise<Product | undefined>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
   getProductsBySeller(sellerId: string): Promise<Product[]>;
   getAllProducts(): Promise<Product[]>;
   searchProducts(query: string, category?: string): Promise<Product[]>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
+  getPriceTiers(productIds: string[]): Promise<ProductPriceTier[]>;
+  replacePriceTiers(productId: string, tiers: { minQuantity: number; price: string }[]): Promise<ProductPriceTier[]>;
+  getVariant(id: string): Promise<ProductVariant | undefined>;
+  getVariantBySku(sku: string): Promise<ProductVariant | undefined>;
+  getVariantsByProducts(productIds: string[]): Promise<ProductVariant[]>;
+  createVariant(variant: InsertProductVariant): Promise<ProductVariant>;
+  updateVariant(id: string, variant: Partial<InsertProductVariant>): Promise<ProductVariant | undefined>;
+  deleteVariant(id: string): Promise<boolean>;
   
   // Cart
   getCartItems(userId: string): Promise<CartItem[]>;
+  getCartItemsWithProducts(userId: string): Promise<CartItemWithProduct[]>;
+  getCartItem(id: string): Promise<CartItem | undefined>;
   addToCart(item: InsertCartItem): Promise<CartItem>;
-  updateCartItem(id: string, quantity: number): Promise<CartItem | undefined>;
+  updateCartItem(id: string, quantity: number, price?: string): Promise<CartItem | undefined>;
   removeFromCart(id: string): Promise<boolean>;
   clearCart(userId: string): Promise<boolean>;
+
+  // Saved lists
+  getSavedLists(userId: string): Promise<(SavedList & { itemCount: number })[]>;
+  getSavedList(id: string): Promise<SavedListDetails | undefined>;
+  getSavedListByShareToken(token: string): Promise<SavedListDetails | undefined>;
+  createSavedList(userId: string, list: InsertSavedList): Promise<SavedList>;
+  updateSavedList(id: string, list: Partial<InsertSavedList>): Promise<SavedList | undefined>;
+  setSavedListShareToken(id: string, shareToken: string | null): Promise<SavedList | undefined>;
+  deleteSavedList(id: string): Promise<boolean>;
+  getSavedListItem(id: string): Promise<SavedListItem | undefined>;
+  addSavedListItem(listId: string, item: InsertSavedListItem): Promise<SavedListItem>;
+  updateSavedListItem(id: string, item: Partial<Pick<InsertSavedListItem, "quantity" | "note">>): Promise<SavedListItem | undefined>;
+  removeSavedListItem(id: string): Promise<boolean>;
+
+  // Recurring orders
+  getRecurringOrders(userId: string): Promise<RecurringOrderDetails[]>;
+  getRecurringOrder(id: string): Promise<RecurringOrderDetails | undefined>;
+  getDueRecurringOrders(before: Date): Promise<RecurringOrderDetails[]>;
+  createRecurringOrder(
+    userId: string,
+    schedule: Omit<CreateRecurringOrder, "items">,
+    items: RecurringOrderLineInput[],
+  ): Promise<RecurringOrder>;
+  updateRecurringOrder(
+    id: string,
+    schedule: Omit<UpdateRecurringOrder, "items">,
+    items?: RecurringOrderLineInput[],
+  ): Promise<RecurringOrder | undefined>;
+  deleteRecurringOrder(id: string): Promise<boolean>;
+  markRecurringOrderReminded(id: string, runAt: Date): Promise<void>;
+  claimRecurringOrderRun(id: string, runAt: Date, nextRunAt: Date | null): Promise<boolean>;
+  recordRecurringOrderRun(id: string, orderId: string, prices: { itemId: string; expectedPrice: string }[]): Promise<void>;
+
+  // Notifications
+  getNotifications(userId: string): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
   
   // Orders
   getOrder(id: string): Promise<Order | undefined>;
   getOrdersByUser(userId: string): Promise<Order[]>;
-  getOrdersBySeller(sellerId: string): Promise<Order[]>;
-  createOrder(order: InsertOrder, items: { productId: string; quantity: number; price: string }[]): Promise<Order>;
-  updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  getOrdersBySeller(sellerId: string): Promise<SellerFulfillment[]>;
+  createOrder(
+    order: InsertOrder,
+    items: OrderItemInput[],
+    redemptions?: PromotionRedemptionInput[],
+    shipping?: FulfillmentShipping[],
+  ): Promise<Order>;
+  getOrderSellerIds(orderId: string): Promise<string[]>;
+  getOrderItemsWithProducts(orderId: string): Promise<OrderItemWithProduct[]>;
+  getOrderDetails(id: string): Promise<OrderDetails | undefined>;
+  getOrCreateInvoice(orderId: string): Promise<Invoice>;
+  updateOrderStatus(id: string, status: OrderStatus, changedBy: string, note?: string): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]>;
+  getFulfillment(id: string): Promise<OrderFulfillment | undefined>;
+  getFulfillmentsByOrder(orderId: string): Promise<OrderFulfillment[]>;
+  updateFulfillmentStatus(
+    id: string,
+    status: OrderStatus,
+    changedBy: string,
+    details?: { note?: string; carrier?: string; trackingNumber?: string },
+  ): Promise<OrderFulfillment | undefined>;
+  collectPickup(sellerId: string, code: string, changedBy: string): Promise<OrderFulfillment | undefined>;
+  
+  // Payments
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByReference(provider: string, providerReference: string): Promise<Payment | undefined>;
+  getPaymentsByOrder(orderId: string): Promise<Payment[]>;
+  hasSucceededPayment(orderId: string): Promise<boolean>;
+  createPayment(payment: InsertPayment, pendingSince: Date): Promise<Payment>;
+  updatePayment(id: string, payment: Partial<InsertPayment>): Promise<Payment | undefined>;
+  settlePayment(id: string, status: PaymentStatus, providerReference: string): Promise<Payment | undefined>;
+  createPaymentAttempt(attempt: InsertPaymentAttempt): Promise<PaymentAttempt>;
+  getPaymentAttempts(paymentId: string): Promise<PaymentAttempt[]>;
+  
+  // Delivery zones
+  getDeliveryZone(id: string): Promise<DeliveryZone | undefined>;
+  getDeliveryZonesBySeller(sellerId: string): Promise<DeliveryZone[]>;
+  getActiveDeliveryZones(sellerIds: string[]): Promise<DeliveryZone[]>;
+  createDeliveryZone(sellerId: string, zone: InsertDeliveryZone): Promise<DeliveryZone>;
+  updateDeliveryZone(id: string, zone: Partial<InsertDeliveryZone>): Promise<DeliveryZone | undefined>;
+  deleteDeliveryZone(id: string): Promise<boolean>;
+
+  // Pickup locations
+  getPickupLocation(id: string): Promise<PickupLocation | undefined>;
+  getPickupLocationsBySeller(sellerId: string): Promise<PickupLocation[]>;
+  getPickupLocationsByIds(ids: string[]): Promise<PickupLocation[]>;
+  getActivePickupLocations(sellerIds: string[]): Promise<PickupLocation[]>;
+  createPickupLocation(sellerId: string, location: InsertPickupLocation): Promise<PickupLocation>;
+  updatePickupLocation(id: string, location: Partial<InsertPickupLocation>): Promise<PickupLocation | undefined>;
+  deletePickupLocation(id: string): Promise<boolean>;
+
+  // Deliveries
+  getDrivers(): Promise<Pick<User, "id" | "username" | "businessName">[]>;
+  getDelivery(id: string): Promise<Delivery | undefined>;
+  getDeliveryByFulfillment(fulfillmentId: string): Promise<Delivery | undefined>;
+  getDeliveriesByOrder(orderId: string): Promise<DeliveryWithTimeline[]>;
+  getDeliveriesByDriver(driverId: string): Promise<DriverDelivery[]>;
+  scheduleDelivery(fulfillment: OrderFulfillment, slot: ScheduleDelivery, changedBy: string): Promise<Delivery>;
+  rescheduleDelivery(id: string, slot: ScheduleDelivery, changedBy: string): Promise<Delivery | undefined>;
+  updateDeliveryStatus(id: string, status: DeliveryStatus, changedBy: string, note?: string): Promise<Delivery | undefined>;
+  completeDelivery(id: string, proof: DeliveryProof, changedBy: string): Promise<Delivery | undefined>;
+
+  // Promotions
+  getPromotion(id: string): Promise<Promotion | undefined>;
+  getPromotionByCode(code: string): Promise<Promotion | undefined>;
+  getAutomaticPromotions(): Promise<Promotion[]>;
+  getPromotions(sellerId?: string): Promise<Promotion[]>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion | undefined>;
+  getPromotionUsage(promotionId: string, userId: string): Promise<{ total: number; byUser: number }>;
+
+  // Ledger and payouts
+  getCommissionRules(): Promise<CommissionRule[]>;
+  createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule>;
+  deleteCommissionRule(id: string): Promise<boolean>;
+  recordOrderSale(orderId: string): Promise<void>;
+  recordRefund(orderItemId: string, quantity: number, description?: string): Promise<LedgerTransaction | undefined>;
+  getSellerBalance(sellerId: string): Promise<SellerBalance>;
+  getSellerLedger(sellerId: string): Promise<(LedgerEntry & { transaction: LedgerTransaction })[]>;
+  getPayout(id: string): Promise<Payout | undefined>;
+  getPayoutsBySeller(sellerId: string): Promise<Payout[]>;
+  getPayouts(status?: PayoutStatus): Promise<Payout[]>;
+  requestPayout(payout: InsertPayout): Promise<Payout>;
+  reviewPayout(id: string, status: "approved" | "rejected", reviewedBy: string, note?: string): Promise<Payout | undefined>;
+  markPayoutPaid(id: string, reviewedBy: string, reference: string): Promise<Payout | undefined>;
+
+  // Returns
+  createReturnRequest(orderId: string, buyerId: string, data: CreateReturn, photoUrls: string[]): Promise<ReturnRequest>;
+  getReturnRequest(id: string): Promise<ReturnRequestDetails | undefined>;
+  getReturnRequests(filter: { buyerId?: string; sellerId?: string }): Promise<ReturnRequest[]>;
+  decideReturn(
+    id: string,
+    decision: "accepted" | "rejected",
+    decidedBy: string,
+    asAdmin: boolean,
+    note?: string,
+  ): Promise<ReturnRequest | undefined>;
+  escalateReturn(id: string): Promise<ReturnRequest | undefined>;
+
+  // Reviews
+  getProductRatings(productIds: string[]): Promise<ProductRating[]>;
+  getProductReviews(productId: string): Promise<ProductReviewDetails[]>;
+  getReviews(status?: ReviewStatus): Promise<ProductReviewDetails[]>;
+  getReview(id: string): Promise<ProductReviewDetails | undefined>;
+  checkCanReview(productId: string, userId: string): Promise<void>;
+  createReview(productId: string, userId: string, data: CreateReview, photoUrls: string[]): Promise<ProductReview>;
+  replyToReview(id: string, reply: string): Promise<ProductReview | undefined>;
+  moderateReview(id: string, status: ReviewStatus, moderatedBy: string, note?: string): Promise<ProductReview | undefined>;
+
+  // Seller storefronts
+  getSellerStats(sellerId: string): Promise<SellerStats>;
+
+  // RFQs
+  createRfq(buyerId: string, data: CreateRfq): Promise<Rfq>;
+  getRfq(id: string): Promise<RfqDetails | undefined>;
+  getRfqs(filter: { buyerId?: string; status?: RfqStatus }): Promise<Rfq[]>;
+  getRfqsForSeller(sellerId: string): Promise<Rfq[]>;
+  createRfqQuote(rfqId: string, sellerId: string, data: CreateRfqQuote): Promise<RfqQuote>;
+  withdrawRfqQuote(id: string): Promise<RfqQuote | undefined>;
+  acceptRfqQuote(
+    rfqId: string,
+    quoteId: string,
+    order: InsertOrder,
+    items: OrderItemInput[],
+    shipping: FulfillmentShipping[],
+  ): Promise<Order>;
+  closeRfq(id: string): Promise<Rfq | undefined>;
+
+  // Idempotency keys
+  reserveIdempotencyKey(userId: string, key: string, requestHash: string, expiredBefore: Date): Promise<IdempotencyKey | undefined>;
+  getIdempotencyKey(userId: string, key: string): Promise<IdempotencyKey | undefined>;
+  saveIdempotentResponse(id: string, status: number, body: unknown): Promise<void>;
+  releaseIdempotencyKey(id: string): Promise<void>;
   
   // Projects
   getProject(id: string): Promise<Project | undefined>;
@@ -67,6 +500,7 @@ export interface IStorage {
 
   // Project Inventory
   getProjectInventory(projectId: string): Promise<ProjectInventory[]>;
+  getInventoryItem(id: string): Promise<ProjectInventory | undefined>;
   createInventoryItem(item: InsertProjectInventory): Promise<ProjectInventory>;
   updateInventoryItem(id: string, item: Partial<InsertProjectInventory>): Promise<ProjectInventory | undefined>;
   deleteInventoryItem(id: string): Promise<boolean>;
@@ -124,8 +558,17 @@ export class DatabaseStorage implements IStorage {
     return product || undefined;
   }
 
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return db.select().from(products).where(inArray(products.id, Array.from(new Set(ids))));
+  }
+
   async getProductsBySeller(sellerId: string): Promise<Product[]> {
-    return db.select().from(products).where(eq(products.sellerId, sellerId)).orderBy(desc(products.createdAt));
+    return db.select().from(products)
+      .where(and(eq(products.sellerId, sellerId), isNull(products.archivedAt)))
+      .orderBy(desc(products.createdAt));
   }
 
   async getAllProducts(): Promise<Product[]> {
@@ -158,9 +601,143 @@ export class DatabaseStorage implements IStorage {
     return product || undefined;
   }
 
+  // Products that orders refer to are archived rather than deleted, so order history keeps its links
   async deleteProduct(id: string): Promise<boolean> {
-    const result = await db.delete(products).where(eq(products.id, id));
-    return result.rowCount > 0;
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select().from(products).where(eq(products.id, id));
+      if (product) {
+        await this.dropRecurringOrderLines(tx, eq(recurringOrderItems.productId, id), product.name);
+      }
+
+      const [ordered] = await tx.select({ id: orderItems.id }).from(orderItems)
+        .where(eq(orderItems.productId, id))
+        .limit(1);
+      if (ordered) {
+        const result = await tx.update(products)
+          .set({ isActive: false, archivedAt: new Date() })
+          .where(eq(products.id, id));
+        return (result.rowCount ?? 0) > 0;
+      }
+
+      await tx.delete(cartItems).where(eq(cartItems.productId, id));
+      await tx.delete(savedListItems).where(eq(savedListItems.productId, id));
+      await tx.delete(productPriceTiers).where(eq(productPriceTiers.productId, id));
+      await tx.delete(productVariants).where(eq(productVariants.productId, id));
+      const result = await tx.delete(products).where(eq(products.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // A standing order can't keep buying something that's been taken down, so its lines go and the buyer is
+  // told; a schedule left with nothing on it is paused rather than failing every run
+  private async dropRecurringOrderLines(tx: Transaction, lines: SQL, name: string): Promise<void> {
+    const affected = await tx.selectDistinct({ schedule: recurringOrders })
+      .from(recurringOrderItems)
+      .innerJoin(recurringOrders, eq(recurringOrderItems.recurringOrderId, recurringOrders.id))
+      .where(lines);
+    if (affected.length === 0) {
+      return;
+    }
+    await tx.delete(recurringOrderItems).where(lines);
+
+    for (const { schedule } of affected) {
+      const [remaining] = await tx.select({ id: recurringOrderItems.id }).from(recurringOrderItems)
+        .where(eq(recurringOrderItems.recurringOrderId, schedule.id))
+        .limit(1);
+      if (!remaining && schedule.status === "active") {
+        await tx.update(recurringOrders).set({ status: "paused" }).where(eq(recurringOrders.id, schedule.id));
+      }
+
+      await tx.insert(notifications).values({
+        userId: schedule.userId,
+        type: "recurring_order_attention",
+        title: `${schedule.name} needs attention`,
+        body: remaining
+          ? `${name} is no longer sold, so it was taken off this order.`
+          : `${name} is no longer sold and was the last item on this order, so the order has been paused.`,
+        link: "/recurring-orders",
+      });
+    }
+  }
+
+  async getPriceTiers(productIds: string[]): Promise<ProductPriceTier[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+    return db.select().from(productPriceTiers)
+      .where(inArray(productPriceTiers.productId, productIds))
+      .orderBy(productPriceTiers.minQuantity);
+  }
+
+  async replacePriceTiers(productId: string, tiers: { minQuantity: number; price: string }[]): Promise<ProductPriceTier[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productPriceTiers).where(eq(productPriceTiers.productId, productId));
+      if (tiers.length === 0) {
+        return [];
+      }
+      const newTiers = await tx.insert(productPriceTiers)
+        .values(tiers.map(tier => ({ ...tier, productId })))
+        .returning();
+      return newTiers.sort((a, b) => a.minQuantity - b.minQuantity);
+    });
+  }
+
+  async getVariant(id: string): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant || undefined;
+  }
+
+  async getVariantBySku(sku: string): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.sku, sku));
+    return variant || undefined;
+  }
+
+  async getVariantsByProducts(productIds: string[]): Promise<ProductVariant[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+    return db.select().from(productVariants)
+      .where(inArray(productVariants.productId, productIds))
+      .orderBy(productVariants.createdAt);
+  }
+
+  async createVariant(variant: InsertProductVariant): Promise<ProductVariant> {
+    const [newVariant] = await db.insert(productVariants).values(variant).returning();
+    return newVariant;
+  }
+
+  async updateVariant(id: string, variantData: Partial<InsertProductVariant>): Promise<ProductVariant | undefined> {
+    const [variant] = await db.update(productVariants).set(variantData).where(eq(productVariants.id, id)).returning();
+    return variant || undefined;
+  }
+
+  // Ordered variants are archived rather than deleted, so past orders and returns can still reach them
+  async deleteVariant(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [listing] = await tx.select({ variant: productVariants, product: products })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(eq(productVariants.id, id));
+      if (listing) {
+        const name = `${listing.product.name} (${formatVariantOptions(listing.variant.options)})`;
+        await this.dropRecurringOrderLines(tx, eq(recurringOrderItems.variantId, id), name);
+      }
+
+      const [ordered] = await tx.select({ id: orderItems.id }).from(orderItems)
+        .where(eq(orderItems.variantId, id))
+        .limit(1);
+      if (ordered) {
+        const result = await tx.update(productVariants)
+          .set({ isActive: false, archivedAt: new Date() })
+          .where(eq(productVariants.id, id));
+        return (result.rowCount ?? 0) > 0;
+      }
+
+      await tx.delete(cartItems).where(eq(cartItems.variantId, id));
+      await tx.delete(savedListItems).where(eq(savedListItems.variantId, id));
+      const result = await tx.delete(productVariants).where(eq(productVariants.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
   }
 
   // Cart
@@ -168,15 +745,42 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(cartItems).where(eq(cartItems.userId, userId));
   }
 
+  async getCartItemsWithProducts(userId: string): Promise<CartItemWithProduct[]> {
+    const rows = await db
+      .select({
+        item: cartItems,
+        product: products,
+        variant: productVariants,
+        seller: { id: users.id, username: users.username, businessName: users.businessName },
+      })
+      .from(cartItems)
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .innerJoin(users, eq(products.sellerId, users.id))
+      .leftJoin(productVariants, eq(cartItems.variantId, productVariants.id))
+      .where(eq(cartItems.userId, userId))
+      .orderBy(cartItems.createdAt);
+
+    return rows.map(({ item, product, variant, seller }) => ({ ...item, product, variant, seller }));
+  }
+
+  async getCartItem(id: string): Promise<CartItem | undefined> {
+    const [item] = await db.select().from(cartItems).where(eq(cartItems.id, id));
+    return item || undefined;
+  }
+
   async addToCart(item: InsertCartItem): Promise<CartItem> {
     // Check if item already exists in cart
     const [existingItem] = await db.select().from(cartItems)
-      .where(and(eq(cartItems.userId, item.userId), eq(cartItems.productId, item.productId)));
+      .where(and(
+        eq(cartItems.userId, item.userId),
+        eq(cartItems.productId, item.productId),
+        item.variantId ? eq(cartItems.variantId, item.variantId) : isNull(cartItems.variantId),
+      ));
 
     if (existingItem) {
-      // Update quantity
+      // Update quantity, and the price to the one the buyer just saw
       const [updatedItem] = await db.update(cartItems)
-        .set({ quantity: existingItem.quantity + item.quantity })
+        .set({ quantity: existingItem.quantity + item.quantity, price: item.price })
         .where(eq(cartItems.id, existingItem.id))
         .returning();
       return updatedItem;
@@ -186,8 +790,8 @@ export class DatabaseStorage implements IStorage {
     return newItem;
   }
 
-  async updateCartItem(id: string, quantity: number): Promise<CartItem | undefined> {
-    const [item] = await db.update(cartItems).set({ quantity }).where(eq(cartItems.id, id)).returning();
+  async updateCartItem(id: string, quantity: number, price?: string): Promise<CartItem | undefined> {
+    const [item] = await db.update(cartItems).set({ quantity, price }).where(eq(cartItems.id, id)).returning();
     return item || undefined;
   }
 
@@ -201,117 +805,1956 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount >= 0;
   }
 
-  // Orders
-  async getOrder(id: string): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
-    return order || undefined;
+  // Saved lists
+  async getSavedLists(userId: string): Promise<(SavedList & { itemCount: number })[]> {
+    const rows = await db
+      .select({ list: savedLists, itemCount: sql<number>`count(${savedListItems.id})::int` })
+      .from(savedLists)
+      .leftJoin(savedListItems, eq(savedListItems.listId, savedLists.id))
+      .where(eq(savedLists.userId, userId))
+      .groupBy(savedLists.id)
+      .orderBy(desc(savedLists.createdAt));
+    return rows.map(({ list, itemCount }) => ({ ...list, itemCount }));
   }
 
-  async getOrdersByUser(userId: string): Promise<Order[]> {
-    return db.select().from(orders).where(eq(orders.userId, userId)).orderBy(desc(orders.createdAt));
+  async getSavedList(id: string): Promise<SavedListDetails | undefined> {
+    const [list] = await db.select().from(savedLists).where(eq(savedLists.id, id));
+    return list ? this.withSavedListItems(list) : undefined;
   }
 
-  async getOrdersBySeller(sellerId: string): Promise<Order[]> {
-    const ordersWithSellerProducts = await db
-      .select({ orders })
-      .from(orders)
-      .innerJoin(orderItems, eq(orders.id, orderItems.orderId))
-      .innerJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(products.sellerId, sellerId))
-      .orderBy(desc(orders.createdAt));
+  async getSavedListByShareToken(token: string): Promise<SavedListDetails | undefined> {
+    const [list] = await db.select().from(savedLists).where(eq(savedLists.shareToken, token));
+    return list ? this.withSavedListItems(list) : undefined;
+  }
 
-    return ordersWithSellerProducts.map(row => row.orders);
+  private async withSavedListItems(list: SavedList): Promise<SavedListDetails> {
+    const rows = await db
+      .select({ item: savedListItems, product: products, variant: productVariants })
+      .from(savedListItems)
+      .innerJoin(products, eq(savedListItems.productId, products.id))
+      .leftJoin(productVariants, eq(savedListItems.variantId, productVariants.id))
+      .where(eq(savedListItems.listId, list.id))
+      .orderBy(savedListItems.createdAt);
+    return { ...list, items: rows.map(({ item, product, variant }) => ({ ...item, product, variant })) };
   }
 
-  async createOrder(order: InsertOrder, items: { productId: string; quantity: number; price: string }[]): Promise<Order> {
-    return await db.transaction(async (tx) => {
-      const [newOrder] = await tx.insert(orders).values(order).returning();
-      
-      for (const item of items) {
-        await tx.insert(orderItems).values({
-          orderId: newOrder.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price,
-        });
-      }
+  async createSavedList(userId: string, list: InsertSavedList): Promise<SavedList> {
+    const [created] = await db.insert(savedLists).values({ ...list, userId }).returning();
+    return created;
+  }
 
-      return newOrder;
+  async updateSavedList(id: string, list: Partial<InsertSavedList>): Promise<SavedList | undefined> {
+    const [updated] = await db.update(savedLists).set(list).where(eq(savedLists.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async setSavedListShareToken(id: string, shareToken: string | null): Promise<SavedList | undefined> {
+    const [updated] = await db.update(savedLists).set({ shareToken }).where(eq(savedLists.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteSavedList(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(savedListItems).where(eq(savedListItems.listId, id));
+      const result = await tx.delete(savedLists).where(eq(savedLists.id, id));
+      return (result.rowCount ?? 0) > 0;
     });
   }
 
-  async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
-    const [order] = await db.update(orders).set({ status: status as any }).where(eq(orders.id, id)).returning();
-    return order || undefined;
+  async getSavedListItem(id: string): Promise<SavedListItem | undefined> {
+    const [item] = await db.select().from(savedListItems).where(eq(savedListItems.id, id));
+    return item || undefined;
   }
 
-  // Projects
-  async getProject(id: string): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id));
-    return project || undefined;
+  // Saving a product that's already on the list adds to its target quantity, like the cart does
+  async addSavedListItem(listId: string, item: InsertSavedListItem): Promise<SavedListItem> {
+    const [existingItem] = await db.select().from(savedListItems)
+      .where(and(
+        eq(savedListItems.listId, listId),
+        eq(savedListItems.productId, item.productId),
+        item.variantId ? eq(savedListItems.variantId, item.variantId) : isNull(savedListItems.variantId),
+      ));
+
+    if (existingItem) {
+      const [updatedItem] = await db.update(savedListItems)
+        .set({ quantity: existingItem.quantity + (item.quantity ?? 1), note: item.note ?? existingItem.note })
+        .where(eq(savedListItems.id, existingItem.id))
+        .returning();
+      return updatedItem;
+    }
+
+    const [newItem] = await db.insert(savedListItems).values({ ...item, listId }).returning();
+    return newItem;
   }
 
-  async getProjectsByClient(clientId: string): Promise<Project[]> {
-    return db.select().from(projects).where(eq(projects.clientId, clientId)).orderBy(desc(projects.createdAt));
+  async updateSavedListItem(
+    id: string,
+    item: Partial<Pick<InsertSavedListItem, "quantity" | "note">>,
+  ): Promise<SavedListItem | undefined> {
+    const [updated] = await db.update(savedListItems).set(item).where(eq(savedListItems.id, id)).returning();
+    return updated || undefined;
   }
 
-  async getAllProjects(): Promise<Project[]> {
-    return db.select().from(projects).orderBy(desc(projects.createdAt));
+  async removeSavedListItem(id: string): Promise<boolean> {
+    const result = await db.delete(savedListItems).where(eq(savedListItems.id, id));
+    return (result.rowCount ?? 0) > 0;
   }
 
-  async createProject(project: InsertProject): Promise<Project> {
-    const [newProject] = await db.insert(projects).values(project).returning();
-    return newProject;
+  // Recurring orders
+  async getRecurringOrders(userId: string): Promise<RecurringOrderDetails[]> {
+    const schedules = await db.select().from(recurringOrders)
+      .where(eq(recurringOrders.userId, userId))
+      .orderBy(desc(recurringOrders.createdAt));
+    return this.withRecurringOrderItems(schedules);
   }
 
-  async updateProject(id: string, projectData: Partial<InsertProject>): Promise<Project | undefined> {
-    const [project] = await db.update(projects).set(projectData).where(eq(projects.id, id)).returning();
-    return project || undefined;
+  async getRecurringOrder(id: string): Promise<RecurringOrderDetails | undefined> {
+    const [schedule] = await db.select().from(recurringOrders).where(eq(recurringOrders.id, id));
+    return schedule ? (await this.withRecurringOrderItems([schedule]))[0] : undefined;
   }
 
-  async deleteProject(id: string): Promise<boolean> {
-    const result = await db.delete(projects).where(eq(projects.id, id));
-    return result.rowCount > 0;
+  // Active schedules whose next run falls on or before the given time, soonest first
+  async getDueRecurringOrders(before: Date): Promise<RecurringOrderDetails[]> {
+    const schedules = await db.select().from(recurringOrders)
+      .where(and(eq(recurringOrders.status, "active"), lte(recurringOrders.nextRunAt, before)))
+      .orderBy(recurringOrders.nextRunAt);
+    return this.withRecurringOrderItems(schedules);
   }
 
-  // Milestones
-  async getMilestonesByProject(projectId: string): Promise<Milestone[]> {
-    return db.select().from(milestones).where(eq(milestones.projectId, projectId)).orderBy(desc(milestones.createdAt));
+  private async withRecurringOrderItems(schedules: RecurringOrder[]): Promise<RecurringOrderDetails[]> {
+    if (schedules.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ item: recurringOrderItems, product: products, variant: productVariants })
+      .from(recurringOrderItems)
+      .innerJoin(products, eq(recurringOrderItems.productId, products.id))
+      .leftJoin(productVariants, eq(recurringOrderItems.variantId, productVariants.id))
+      .where(inArray(recurringOrderItems.recurringOrderId, schedules.map(schedule => schedule.id)));
+    return schedules.map(schedule => ({
+      ...schedule,
+      items: rows
+        .filter(({ item }) => item.recurringOrderId === schedule.id)
+        .map(({ item, product, variant }) => ({ ...item, product, variant })),
+    }));
   }
 
-  async createMilestone(milestone: InsertMilestone): Promise<Milestone> {
-    const [newMilestone] = await db.insert(milestones).values(milestone).returning();
-    return newMilestone;
+  async createRecurringOrder(
+    userId: string,
+    schedule: Omit<CreateRecurringOrder, "items">,
+    items: RecurringOrderLineInput[],
+  ): Promise<RecurringOrder> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(recurringOrders).values({ ...schedule, userId }).returning();
+      await tx.insert(recurringOrderItems).values(items.map(item => ({ ...item, recurringOrderId: created.id })));
+      return created;
+    });
   }
 
-  async updateMilestone(id: string, milestoneData: Partial<InsertMilestone>): Promise<Milestone | undefined> {
-    const [milestone] = await db.update(milestones).set(milestoneData).where(eq(milestones.id, id)).returning();
-    return milestone || undefined;
+  // Replaces the lines when they're given; moving the next run clears any reminder sent for the old one
+  async updateRecurringOrder(
+    id: string,
+    schedule: Omit<UpdateRecurringOrder, "items">,
+    items?: RecurringOrderLineInput[],
+  ): Promise<RecurringOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const changes = schedule.nextRunAt ? { ...schedule, remindedForRunAt: null } : schedule;
+      const [updated] = Object.keys(changes).length > 0
+        ? await tx.update(recurringOrders).set(changes).where(eq(recurringOrders.id, id)).returning()
+        : await tx.select().from(recurringOrders).where(eq(recurringOrders.id, id));
+      if (!updated) {
+        return undefined;
+      }
+
+      if (items) {
+        await tx.delete(recurringOrderItems).where(eq(recurringOrderItems.recurringOrderId, id));
+        await tx.insert(recurringOrderItems).values(items.map(item => ({ ...item, recurringOrderId: id })));
+      }
+      return updated;
+    });
   }
 
-  async deleteMilestone(id: string): Promise<boolean> {
-    const result = await db.delete(milestones).where(eq(milestones.id, id));
-    return result.rowCount > 0;
+  async deleteRecurringOrder(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(recurringOrderItems).where(eq(recurringOrderItems.recurringOrderId, id));
+      const result = await tx.delete(recurringOrders).where(eq(recurringOrders.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
   }
 
-  // Progress Images
-  async getProgressImagesByProject(projectId: string): Promise<ProgressImage[]> {
-    return db.select().from(progressImages).where(eq(progressImages.projectId, projectId)).orderBy(desc(progressImages.createdAt));
+  async markRecurringOrderReminded(id: string, runAt: Date): Promise<void> {
+    await db.update(recurringOrders).set({ remindedForRunAt: runAt }).where(eq(recurringOrders.id, id));
   }
 
-  async createProgressImage(image: InsertProgressImage): Promise<ProgressImage> {
-    const [newImage] = await db.insert(progressImages).values(image).returning();
-    return newImage;
+  /**
+   * Moves an active schedule past the run at runAt, or ends it when there's no next run. Only one
+   * caller can claim a given run, so a run is never placed twice by overlapping scheduler ticks.
+   */
+  async claimRecurringOrderRun(id: string, runAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const [claimed] = await db.update(recurringOrders)
+      .set(nextRunAt ? { nextRunAt, lastRunAt: new Date() } : { status: "ended", lastRunAt: new Date() })
+      .where(and(
+        eq(recurringOrders.id, id),
+        eq(recurringOrders.status, "active"),
+        eq(recurringOrders.nextRunAt, runAt),
+      ))
+      .returning({ id: recurringOrders.id });
+    return !!claimed;
   }
 
-  async deleteProgressImage(id: string): Promise<boolean> {
-    const result = await db.delete(progressImages).where(eq(progressImages.id, id));
-    return result.rowCount > 0;
+  // Links the order a run placed and remembers the prices it was charged, so the next run flags changes from these
+  async recordRecurringOrderRun(id: string, orderId: string, prices: { itemId: string; expectedPrice: string }[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(recurringOrders).set({ lastOrderId: orderId }).where(eq(recurringOrders.id, id));
+      for (const { itemId, expectedPrice } of prices) {
+        await tx.update(recurringOrderItems).set({ expectedPrice }).where(eq(recurringOrderItems.id, itemId));
+      }
+    });
   }
 
-  // Project Inventory
-  async getProjectInventory(projectId: string): Promise<ProjectInventory[]> {
-    return db.select().from(projectInventory).where(eq(projectInventory.projectId, projectId)).orderBy(desc(projectInventory.createdAt));
+  // Notifications
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(50);
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Orders
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order || undefined;
+  }
+
+  async getOrdersByUser(userId: string): Promise<Order[]> {
+    return db.select().from(orders).where(eq(orders.userId, userId)).orderBy(desc(orders.createdAt));
+  }
+
+  async getOrdersBySeller(sellerId: string): Promise<SellerFulfillment[]> {
+    const rows = await db
+      .select({ fulfillment: orderFulfillments, order: orders })
+      .from(orderFulfillments)
+      .innerJoin(orders, eq(orderFulfillments.orderId, orders.id))
+      .where(eq(orderFulfillments.sellerId, sellerId))
+      .orderBy(desc(orders.createdAt));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const items = await db.select().from(orderItems)
+      .where(inArray(orderItems.fulfillmentId, rows.map(row => row.fulfillment.id)));
+
+    return rows.map(({ fulfillment, order }) => ({
+      ...fulfillment,
+      order: {
+        id: order.id,
+        userId: order.userId,
+        shippingAddress: order.shippingAddress,
+        createdAt: order.createdAt,
+      },
+      items: items.filter(item => item.fulfillmentId === fulfillment.id),
+    }));
+  }
+
+  async createOrder(
+    order: InsertOrder,
+    items: OrderItemInput[],
+    redemptions: PromotionRedemptionInput[] = [],
+    shipping: FulfillmentShipping[] = [],
+  ): Promise<Order> {
+    return await db.transaction(async (tx) => this.createOrderTx(tx, order, items, redemptions, shipping));
+  }
+
+  private async createOrderTx(
+    tx: Transaction,
+    order: InsertOrder,
+    items: OrderItemInput[],
+    redemptions: PromotionRedemptionInput[],
+    shipping: FulfillmentShipping[] = [],
+  ): Promise<Order> {
+    // Lock the product and variant rows so concurrent checkouts can't oversell the same stock
+    const productIds = Array.from(new Set(items.map(item => item.productId)));
+    const lockedProducts = await tx.select().from(products)
+      .where(inArray(products.id, productIds))
+      .for("update");
+    const productById = new Map(lockedProducts.map(product => [product.id, product]));
+
+    const variantIds = Array.from(new Set(items.flatMap(item => item.variantId ? [item.variantId] : [])));
+    const lockedVariants = variantIds.length === 0 ? [] : await tx.select().from(productVariants)
+      .where(inArray(productVariants.id, variantIds))
+      .for("update");
+    const variantById = new Map(lockedVariants.map(variant => [variant.id, variant]));
+
+    // Variant lines draw on the variant's stock, other lines on the product's
+    const requestedProducts = new Map<string, number>();
+    const requestedVariants = new Map<string, number>();
+    for (const item of items) {
+      if (item.variantId) {
+        requestedVariants.set(item.variantId, (requestedVariants.get(item.variantId) || 0) + item.quantity);
+      } else {
+        requestedProducts.set(item.productId, (requestedProducts.get(item.productId) || 0) + item.quantity);
+      }
+    }
+
+    const shortages: StockShortage[] = [];
+    requestedProducts.forEach((requested, productId) => {
+      const available = productById.get(productId)?.stock ?? 0;
+      if (requested > available) {
+        shortages.push({ productId, requested, available });
+      }
+    });
+    requestedVariants.forEach((requested, variantId) => {
+      const variant = variantById.get(variantId);
+      const available = variant?.stock ?? 0;
+      if (requested > available) {
+        shortages.push({ productId: variant?.productId ?? "", variantId, requested, available });
+      }
+    });
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+
+    // Re-check usage limits under a lock so the last redemption of a promotion can't be claimed twice
+    for (const redemption of redemptions) {
+      const [promotion] = await tx.select().from(promotions)
+        .where(eq(promotions.id, redemption.promotionId))
+        .for("update");
+      const usage = await this.getPromotionUsageTx(tx, redemption.promotionId, order.userId);
+      if (!promotion
+        || (promotion.maxUses !== null && usage.total >= promotion.maxUses)
+        || (promotion.maxUsesPerUser !== null && usage.byUser >= promotion.maxUsesPerUser)) {
+        throw new PromotionLimitError(redemption.promotionId);
+      }
+    }
+
+    const [newOrder] = await tx.insert(orders).values(order).returning();
+
+    if (redemptions.length > 0) {
+      await tx.insert(promotionRedemptions).values(redemptions.map(redemption => ({
+        promotionId: redemption.promotionId,
+        userId: newOrder.userId,
+        orderId: newOrder.id,
+        amount: redemption.amount,
+      })));
+    }
+
+    // Split the order into one fulfillment per seller
+    const itemsBySeller = new Map<string, typeof items>();
+    for (const item of items) {
+      const sellerId = productById.get(item.productId)!.sellerId;
+      itemsBySeller.set(sellerId, [...(itemsBySeller.get(sellerId) || []), item]);
+    }
+
+    const sellers = await tx.select({ id: users.id, username: users.username, businessName: users.businessName })
+      .from(users)
+      .where(inArray(users.id, Array.from(itemsBySeller.keys())));
+
+    for (const [sellerId, sellerItems] of Array.from(itemsBySeller)) {
+      const seller = sellers.find(candidate => candidate.id === sellerId);
+      const delivery = shipping.find(entry => entry.sellerId === sellerId);
+      const subtotal = sellerItems.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0);
+      const [fulfillment] = await tx.insert(orderFulfillments).values({
+        orderId: newOrder.id,
+        sellerId,
+        subtotal: subtotal.toFixed(2),
+        shippingFee: delivery?.fee ?? "0",
+        deliveryZoneId: delivery?.deliveryZoneId ?? null,
+        pickupLocationId: delivery?.pickupLocationId ?? null,
+        pickupCode: delivery?.pickupLocationId ? generatePickupCode() : null,
+      }).returning();
+
+      for (const item of sellerItems) {
+        const product = productById.get(item.productId)!;
+        const variant = item.variantId ? variantById.get(item.variantId) : undefined;
+        await tx.insert(orderItems).values({
+          orderId: newOrder.id,
+          fulfillmentId: fulfillment.id,
+          productId: item.productId,
+          variantId: item.variantId ?? null,
+          quantity: item.quantity,
+          price: item.price,
+          discount: item.discount ?? null,
+          sellerFundedDiscount: item.sellerFundedDiscount ?? false,
+          productName: variant ? `${product.name} (${formatVariantOptions(variant.options)})` : product.name,
+          productDescription: product.description,
+          productImageUrl: variant?.imageUrl || product.imageUrl,
+          productUnit: product.unit,
+          sellerId,
+          sellerName: seller?.businessName || seller?.username,
+        });
+      }
+    }
+
+    await tx.insert(orderStatusHistory).values({
+      orderId: newOrder.id,
+      toStatus: newOrder.status,
+      changedBy: newOrder.userId,
+    });
+
+    for (const [productId, requested] of Array.from(requestedProducts)) {
+      await tx.update(products)
+        .set({ stock: sql`${products.stock} - ${requested}` })
+        .where(eq(products.id, productId));
+    }
+    for (const [variantId, requested] of Array.from(requestedVariants)) {
+      await tx.update(productVariants)
+        .set({ stock: sql`${productVariants.stock} - ${requested}` })
+        .where(eq(productVariants.id, variantId));
+    }
+
+    return newOrder;
+  }
+
+  async getOrderSellerIds(orderId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ sellerId: products.sellerId })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(eq(orderItems.orderId, orderId));
+
+    return rows.map(row => row.sellerId);
+  }
+
+  async getOrderItemsWithProducts(orderId: string): Promise<OrderItemWithProduct[]> {
+    const rows = await db
+      .select({
+        item: orderItems,
+        product: products,
+        variant: productVariants,
+        seller: { id: users.id, username: users.username, email: users.email, businessName: users.businessName },
+      })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .innerJoin(users, eq(products.sellerId, users.id))
+      .leftJoin(productVariants, eq(orderItems.variantId, productVariants.id))
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(users.id);
+
+    return rows.map(({ item, product, variant, seller }) => ({ ...item, product, variant, seller }));
+  }
+
+  async getOrderDetails(id: string): Promise<OrderDetails | undefined> {
+    const order = await this.getOrder(id);
+    if (!order) {
+      return undefined;
+    }
+
+    const items = await this.getOrderItemsWithProducts(id);
+    const fulfillments = await this.getFulfillmentsByOrder(id);
+    return {
+      ...order,
+      items: items.map(({ product, variant, seller, ...item }) => ({
+        ...item,
+        product: {
+          name: item.productName ?? (variant ? `${product.name} (${formatVariantOptions(variant.options)})` : product.name),
+          description: item.productDescription ?? product.description,
+          imageUrl: item.productName ? item.productImageUrl : variant?.imageUrl || product.imageUrl,
+          unit: item.productUnit ?? product.unit,
+        },
+        seller: {
+          id: item.sellerId ?? seller.id,
+          name: item.sellerName ?? (seller.businessName || seller.username),
+          email: seller.email,
+        },
+      })),
+      fulfillments,
+    };
+  }
+
+  // Numbers must run without gaps, so the table is locked while the next one is taken
+  async getOrCreateInvoice(orderId: string): Promise<Invoice> {
+    const [issued] = await db.select().from(invoices).where(eq(invoices.orderId, orderId));
+    if (issued) {
+      return issued;
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`lock table ${invoices} in share row exclusive mode`);
+
+      // Another request may have issued it while this one waited for the lock
+      const [existing] = await tx.select().from(invoices).where(eq(invoices.orderId, orderId));
+      if (existing) {
+        return existing;
+      }
+
+      const [{ last }] = await tx.select({ last: sql<number>`coalesce(max(${invoices.number}), 0)::int` }).from(invoices);
+      const [invoice] = await tx.insert(invoices).values({ orderId, number: last + 1 }).returning();
+      return invoice;
+    });
+  }
+
+  async updateOrderStatus(id: string, status: OrderStatus, changedBy: string, note?: string): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      if (!orderStatusTransitions[current.status].includes(status)) {
+        throw new InvalidStatusTransitionError(current.status, status);
+      }
+
+      const [order] = await tx.update(orders).set({ status }).where(eq(orders.id, id)).returning();
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus: current.status,
+        toStatus: status,
+        changedBy,
+        note,
+      });
+
+      // Carry the change down to every fulfillment that can legally follow it
+      const fulfillments = await tx.select().from(orderFulfillments)
+        .where(eq(orderFulfillments.orderId, id))
+        .for("update");
+      for (const fulfillment of fulfillments) {
+        if (orderStatusTransitions[fulfillment.status].includes(status)) {
+          await this.applyFulfillmentStatus(tx, fulfillment, status, changedBy, { note });
+        }
+      }
+
+      // Orders placed before fulfillments existed restock directly
+      if (status === "cancelled" && fulfillments.length === 0) {
+        await this.restockItems(tx, await tx.select().from(orderItems).where(eq(orderItems.orderId, id)));
+      }
+
+      return order;
+    });
+  }
+
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return db.select().from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(orderStatusHistory.createdAt);
+  }
+
+  async getFulfillment(id: string): Promise<OrderFulfillment | undefined> {
+    const [fulfillment] = await db.select().from(orderFulfillments).where(eq(orderFulfillments.id, id));
+    return fulfillment || undefined;
+  }
+
+  async getFulfillmentsByOrder(orderId: string): Promise<OrderFulfillment[]> {
+    return db.select().from(orderFulfillments).where(eq(orderFulfillments.orderId, orderId));
+  }
+
+  async updateFulfillmentStatus(
+    id: string,
+    status: OrderStatus,
+    changedBy: string,
+    details: { note?: string; carrier?: string; trackingNumber?: string } = {},
+  ): Promise<OrderFulfillment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orderFulfillments).where(eq(orderFulfillments.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      if (!orderStatusTransitions[current.status].includes(status)) {
+        throw new InvalidStatusTransitionError(current.status, status);
+      }
+
+      const fulfillment = await this.applyFulfillmentStatus(tx, current, status, changedBy, details);
+      await this.syncOrderStatus(tx, current.orderId, changedBy);
+      return fulfillment;
+    });
+  }
+
+  // Hands over an order at the seller's yard once the buyer reads out their code; pickups skip shipped
+  async collectPickup(sellerId: string, code: string, changedBy: string): Promise<OrderFulfillment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orderFulfillments)
+        .where(and(
+          eq(orderFulfillments.sellerId, sellerId),
+          eq(orderFulfillments.pickupCode, code.toUpperCase()),
+          inArray(orderFulfillments.status, ["confirmed", "shipped"]),
+        ))
+        .for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const fulfillment = await this.applyFulfillmentStatus(tx, current, "delivered", changedBy, { note: "Collected from the yard" });
+      await this.syncOrderStatus(tx, current.orderId, changedBy);
+      return fulfillment;
+    });
+  }
+
+  private async applyFulfillmentStatus(
+    tx: Transaction,
+    current: OrderFulfillment,
+    status: OrderStatus,
+    changedBy: string,
+    details: { note?: string; carrier?: string; trackingNumber?: string },
+  ): Promise<OrderFulfillment> {
+    const [fulfillment] = await tx.update(orderFulfillments).set({
+      status,
+      carrier: details.carrier ?? current.carrier,
+      trackingNumber: details.trackingNumber ?? current.trackingNumber,
+      shippedAt: status === "shipped" ? new Date() : current.shippedAt,
+      deliveredAt: status === "delivered" ? new Date() : current.deliveredAt,
+    }).where(eq(orderFulfillments.id, current.id)).returning();
+
+    await tx.insert(orderStatusHistory).values({
+      orderId: current.orderId,
+      fulfillmentId: current.id,
+      fromStatus: current.status,
+      toStatus: status,
+      changedBy,
+      note: details.note,
+    });
+
+    // Put reserved stock back on the shelf and refund any paid lines when a seller's part of the order is cancelled
+    if (status === "cancelled") {
+      const items = await tx.select().from(orderItems).where(eq(orderItems.fulfillmentId, current.id));
+      await this.restockItems(tx, items);
+      for (const item of items) {
+        await this.recordRefundTx(tx, item, item.quantity, "Fulfillment cancelled");
+      }
+    }
+
+    return fulfillment;
+  }
+
+  // Roll the order status forward once every live fulfillment has reached the same stage
+  private async syncOrderStatus(tx: Transaction, orderId: string, changedBy: string): Promise<void> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+    const fulfillments = await tx.select().from(orderFulfillments).where(eq(orderFulfillments.orderId, orderId));
+    const live = fulfillments.filter(fulfillment => fulfillment.status !== "cancelled");
+
+    let derived: OrderStatus;
+    if (live.length === 0) {
+      derived = "cancelled";
+    } else if (live.every(fulfillment => fulfillment.status === "delivered")) {
+      derived = "delivered";
+    } else if (live.every(fulfillment => fulfillment.status === "shipped" || fulfillment.status === "delivered")) {
+      derived = "shipped";
+    } else if (live.every(fulfillment => fulfillment.status !== "pending")) {
+      derived = "confirmed";
+    } else {
+      derived = "pending";
+    }
+
+    // Fulfillments may skip stages the order hasn't recorded yet, so only require forward movement
+    const progression: OrderStatus[] = ["pending", "confirmed", "shipped", "delivered"];
+    const movesForward = derived === "cancelled"
+      ? orderStatusTransitions[order.status].includes("cancelled")
+      : order.status !== "cancelled" && progression.indexOf(derived) > progression.indexOf(order.status);
+    if (!movesForward) {
+      return;
+    }
+
+    await tx.update(orders).set({ status: derived }).where(eq(orders.id, orderId));
+    await tx.insert(orderStatusHistory).values({
+      orderId,
+      fromStatus: order.status,
+      toStatus: derived,
+      changedBy,
+    });
+  }
+
+  private async restockItems(tx: Transaction, items: Pick<OrderItem, "productId" | "variantId" | "quantity">[]): Promise<void> {
+    for (const item of items) {
+      if (item.variantId) {
+        await tx.update(productVariants)
+          .set({ stock: sql`${productVariants.stock} + ${item.quantity}` })
+          .where(eq(productVariants.id, item.variantId));
+      } else {
+        await tx.update(products)
+          .set({ stock: sql`${products.stock} + ${item.quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+    }
+  }
+
+  // Payments
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment || undefined;
+  }
+
+  async getPaymentByReference(provider: string, providerReference: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments)
+      .where(and(eq(payments.provider, provider), eq(payments.providerReference, providerReference)));
+    return payment || undefined;
+  }
+
+  async getPaymentsByOrder(orderId: string): Promise<Payment[]> {
+    return db.select().from(payments).where(eq(payments.orderId, orderId)).orderBy(desc(payments.createdAt));
+  }
+
+  async hasSucceededPayment(orderId: string): Promise<boolean> {
+    const [payment] = await db.select({ id: payments.id }).from(payments)
+      .where(and(eq(payments.orderId, orderId), eq(payments.status, "succeeded")))
+      .limit(1);
+    return !!payment;
+  }
+
+  // Locks the order so two taps can't both find no pending payment and each start one
+  async createPayment(payment: InsertPayment, pendingSince: Date): Promise<Payment> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, payment.orderId)).for("update");
+      const [pending] = await tx.select({ id: payments.id }).from(payments)
+        .where(and(
+          eq(payments.orderId, payment.orderId),
+          eq(payments.status, "pending"),
+          gt(payments.createdAt, pendingSince),
+        ))
+        .limit(1);
+      if (pending) {
+        throw new PaymentInProgressError();
+      }
+
+      const [newPayment] = await tx.insert(payments).values(payment).returning();
+      return newPayment;
+    });
+  }
+
+  async updatePayment(id: string, paymentData: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const [payment] = await db.update(payments)
+      .set({ ...paymentData, updatedAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    return payment || undefined;
+  }
+
+  // Moves a pending payment to its final status; returns undefined if it was already settled
+  async settlePayment(id: string, status: PaymentStatus, providerReference: string): Promise<Payment | undefined> {
+    const [payment] = await db.update(payments)
+      .set({ status, providerReference, updatedAt: new Date() })
+      .where(and(eq(payments.id, id), eq(payments.status, "pending")))
+      .returning();
+    return payment || undefined;
+  }
+
+  async createPaymentAttempt(attempt: InsertPaymentAttempt): Promise<PaymentAttempt> {
+    const [newAttempt] = await db.insert(paymentAttempts).values(attempt).returning();
+    return newAttempt;
+  }
+
+  async getPaymentAttempts(paymentId: string): Promise<PaymentAttempt[]> {
+    return db.select().from(paymentAttempts).where(eq(paymentAttempts.paymentId, paymentId)).orderBy(paymentAttempts.createdAt);
+  }
+
+  // Delivery zones
+  async getDeliveryZone(id: string): Promise<DeliveryZone | undefined> {
+    const [zone] = await db.select().from(deliveryZones).where(eq(deliveryZones.id, id));
+    return zone || undefined;
+  }
+
+  async getDeliveryZonesBySeller(sellerId: string): Promise<DeliveryZone[]> {
+    return db.select().from(deliveryZones)
+      .where(eq(deliveryZones.sellerId, sellerId))
+      .orderBy(deliveryZones.region, deliveryZones.name);
+  }
+
+  async getActiveDeliveryZones(sellerIds: string[]): Promise<DeliveryZone[]> {
+    if (sellerIds.length === 0) {
+      return [];
+    }
+    return db.select().from(deliveryZones)
+      .where(and(inArray(deliveryZones.sellerId, Array.from(new Set(sellerIds))), eq(deliveryZones.isActive, true)));
+  }
+
+  async createDeliveryZone(sellerId: string, zone: InsertDeliveryZone): Promise<DeliveryZone> {
+    const [created] = await db.insert(deliveryZones).values({ ...zone, sellerId }).returning();
+    return created;
+  }
+
+  async updateDeliveryZone(id: string, zone: Partial<InsertDeliveryZone>): Promise<DeliveryZone | undefined> {
+    const [updated] = await db.update(deliveryZones).set(zone).where(eq(deliveryZones.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteDeliveryZone(id: string): Promise<boolean> {
+    const [used] = await db.select({ id: orderFulfillments.id }).from(orderFulfillments)
+      .where(eq(orderFulfillments.deliveryZoneId, id))
+      .limit(1);
+    if (used) {
+      const [deactivated] = await db.update(deliveryZones)
+        .set({ isActive: false })
+        .where(eq(deliveryZones.id, id))
+        .returning({ id: deliveryZones.id });
+      return !!deactivated;
+    }
+
+    const result = await db.delete(deliveryZones).where(eq(deliveryZones.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Pickup locations
+  async getPickupLocation(id: string): Promise<PickupLocation | undefined> {
+    const [location] = await db.select().from(pickupLocations).where(eq(pickupLocations.id, id));
+    return location || undefined;
+  }
+
+  async getPickupLocationsBySeller(sellerId: string): Promise<PickupLocation[]> {
+    return db.select().from(pickupLocations)
+      .where(eq(pickupLocations.sellerId, sellerId))
+      .orderBy(pickupLocations.name);
+  }
+
+  async getPickupLocationsByIds(ids: string[]): Promise<PickupLocation[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return db.select().from(pickupLocations).where(inArray(pickupLocations.id, Array.from(new Set(ids))));
+  }
+
+  async getActivePickupLocations(sellerIds: string[]): Promise<PickupLocation[]> {
+    if (sellerIds.length === 0) {
+      return [];
+    }
+    return db.select().from(pickupLocations)
+      .where(and(inArray(pickupLocations.sellerId, Array.from(new Set(sellerIds))), eq(pickupLocations.isActive, true)))
+      .orderBy(pickupLocations.name);
+  }
+
+  async createPickupLocation(sellerId: string, location: InsertPickupLocation): Promise<PickupLocation> {
+    const [created] = await db.insert(pickupLocations).values({ ...location, sellerId }).returning();
+    return created;
+  }
+
+  async updatePickupLocation(id: string, location: Partial<InsertPickupLocation>): Promise<PickupLocation | undefined> {
+    const [updated] = await db.update(pickupLocations).set(location).where(eq(pickupLocations.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Locations that orders were collected from are deactivated rather than deleted, so buyers can still find them
+  async deletePickupLocation(id: string): Promise<boolean> {
+    const [used] = await db.select({ id: orderFulfillments.id }).from(orderFulfillments)
+      .where(eq(orderFulfillments.pickupLocationId, id))
+      .limit(1);
+    if (used) {
+      const [deactivated] = await db.update(pickupLocations)
+        .set({ isActive: false })
+        .where(eq(pickupLocations.id, id))
+        .returning({ id: pickupLocations.id });
+      return !!deactivated;
+    }
+
+    const result = await db.delete(pickupLocations).where(eq(pickupLocations.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Deliveries
+  async getDrivers(): Promise<Pick<User, "id" | "username" | "businessName">[]> {
+    return db.select({ id: users.id, username: users.username, businessName: users.businessName })
+      .from(users)
+      .where(eq(users.role, "driver"))
+      .orderBy(users.username);
+  }
+
+  async getDelivery(id: string): Promise<Delivery | undefined> {
+    const [delivery] = await db.select().from(deliveries).where(eq(deliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async getDeliveryByFulfillment(fulfillmentId: string): Promise<Delivery | undefined> {
+    const [delivery] = await db.select().from(deliveries).where(eq(deliveries.fulfillmentId, fulfillmentId));
+    return delivery || undefined;
+  }
+
+  async getDeliveriesByOrder(orderId: string): Promise<DeliveryWithTimeline[]> {
+    const rows = await db.select({
+      delivery: deliveries,
+      driver: { id: users.id, username: users.username, businessName: users.businessName },
+    })
+      .from(deliveries)
+      .leftJoin(users, eq(deliveries.driverId, users.id))
+      .where(eq(deliveries.orderId, orderId))
+      .orderBy(deliveries.scheduledStart);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const events = await db.select().from(deliveryEvents)
+      .where(inArray(deliveryEvents.deliveryId, rows.map(row => row.delivery.id)))
+      .orderBy(deliveryEvents.createdAt);
+    return rows.map(row => ({
+      ...row.delivery,
+      driver: row.driver,
+      events: events.filter(event => event.deliveryId === row.delivery.id),
+    }));
+  }
+
+  async getDeliveriesByDriver(driverId: string): Promise<DriverDelivery[]> {
+    const rows = await db.select({
+      delivery: deliveries,
+      order: {
+        id: orders.id,
+        shippingAddress: orders.shippingAddress,
+        shippingRegion: orders.shippingRegion,
+        shippingDistrict: orders.shippingDistrict,
+      },
+    })
+      .from(deliveries)
+      .innerJoin(orders, eq(deliveries.orderId, orders.id))
+      .where(eq(deliveries.driverId, driverId))
+      .orderBy(deliveries.scheduledStart);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const items = await db.select({
+      id: orderItems.id,
+      fulfillmentId: orderItems.fulfillmentId,
+      productName: orderItems.productName,
+      quantity: orderItems.quantity,
+    })
+      .from(orderItems)
+      .where(inArray(orderItems.fulfillmentId, rows.map(row => row.delivery.fulfillmentId)));
+    return rows.map(row => ({
+      ...row.delivery,
+      order: row.order,
+      items: items
+        .filter(item => item.fulfillmentId === row.delivery.fulfillmentId)
+        .map(({ id, productName, quantity }) => ({ id, productName, quantity })),
+    }));
+  }
+
+  async scheduleDelivery(fulfillment: OrderFulfillment, slot: ScheduleDelivery, changedBy: string): Promise<Delivery> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select({ id: deliveries.id }).from(deliveries)
+        .where(eq(deliveries.fulfillmentId, fulfillment.id));
+      if (existing) {
+        throw new DeliveryError("A delivery is already booked for this part of the order");
+      }
+
+      const status: DeliveryStatus = slot.driverId ? "assigned" : "scheduled";
+      const [delivery] = await tx.insert(deliveries).values({
+        orderId: fulfillment.orderId,
+        fulfillmentId: fulfillment.id,
+        driverId: slot.driverId ?? null,
+        status,
+        scheduledStart: slot.scheduledStart,
+        scheduledEnd: slot.scheduledEnd,
+      }).returning();
+      await tx.insert(deliveryEvents).values({ deliveryId: delivery.id, status, changedBy, note: "Delivery booked" });
+      return delivery;
+    });
+  }
+
+  // Books a new slot or driver; a missing driverId keeps the current driver and null takes them off
+  async rescheduleDelivery(id: string, slot: ScheduleDelivery, changedBy: string): Promise<Delivery | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(deliveries).where(eq(deliveries.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+      if (current.status === "out_for_delivery" || current.status === "delivered") {
+        throw new DeliveryError("A delivery can't be rebooked once it has left for the buyer");
+      }
+
+      const driverId = slot.driverId === undefined ? current.driverId : slot.driverId;
+      const status: DeliveryStatus = driverId ? "assigned" : "scheduled";
+      const [delivery] = await tx.update(deliveries).set({
+        driverId,
+        status,
+        scheduledStart: slot.scheduledStart,
+        scheduledEnd: slot.scheduledEnd,
+      }).where(eq(deliveries.id, id)).returning();
+      await tx.insert(deliveryEvents).values({ deliveryId: id, status, changedBy, note: "Delivery rebooked" });
+      return delivery;
+    });
+  }
+
+  async updateDeliveryStatus(id: string, status: DeliveryStatus, changedBy: string, note?: string): Promise<Delivery | undefined> {
+    return await db.transaction(async (tx) => {
+      const current = await this.lockDeliveryForTransition(tx, id, status);
+      if (!current) {
+        return undefined;
+      }
+
+      const [delivery] = await tx.update(deliveries).set({ status }).where(eq(deliveries.id, id)).returning();
+      await tx.insert(deliveryEvents).values({ deliveryId: id, status, changedBy, note });
+
+      // Leaving the yard is when the seller's part of the order counts as shipped
+      if (status === "out_for_delivery") {
+        const [fulfillment] = await tx.select().from(orderFulfillments)
+          .where(eq(orderFulfillments.id, current.fulfillmentId))
+          .for("update");
+        if (fulfillment.status === "cancelled") {
+          throw new DeliveryError("This part of the order was cancelled");
+        }
+        if (fulfillment.status === "confirmed") {
+          await this.applyFulfillmentStatus(tx, fulfillment, "shipped", changedBy, { note: "Out for delivery" });
+          await this.syncOrderStatus(tx, fulfillment.orderId, changedBy);
+        }
+      }
+      return delivery;
+    });
+  }
+
+  async completeDelivery(id: string, proof: DeliveryProof, changedBy: string): Promise<Delivery | undefined> {
+    return await db.transaction(async (tx) => {
+      const current = await this.lockDeliveryForTransition(tx, id, "delivered");
+      if (!current) {
+        return undefined;
+      }
+
+      const [delivery] = await tx.update(deliveries).set({
+        status: "delivered",
+        recipientName: proof.recipientName,
+        proofPhotoUrl: proof.proofPhotoUrl,
+        signatureUrl: proof.signatureUrl,
+        deliveredAt: new Date(),
+      }).where(eq(deliveries.id, id)).returning();
+      await tx.insert(deliveryEvents).values({
+        deliveryId: id,
+        status: "delivered",
+        changedBy,
+        note: proof.note || `Received by ${proof.recipientName}`,
+      });
+
+      const [fulfillment] = await tx.select().from(orderFulfillments)
+        .where(eq(orderFulfillments.id, current.fulfillmentId))
+        .for("update");
+      if (fulfillment.status === "shipped") {
+        await this.applyFulfillmentStatus(tx, fulfillment, "delivered", changedBy, { note: `Received by ${proof.recipientName}` });
+        await this.syncOrderStatus(tx, fulfillment.orderId, changedBy);
+      }
+      return delivery;
+    });
+  }
+
+  private async lockDeliveryForTransition(tx: Transaction, id: string, status: DeliveryStatus): Promise<Delivery | undefined> {
+    const [current] = await tx.select().from(deliveries).where(eq(deliveries.id, id)).for("update");
+    if (current && !deliveryStatusTransitions[current.status].includes(status)) {
+      throw new InvalidDeliveryTransitionError(current.status, status);
+    }
+    return current || undefined;
+  }
+
+  // Promotions
+  async getPromotion(id: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion || undefined;
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.code, code));
+    return promotion || undefined;
+  }
+
+  async getAutomaticPromotions(): Promise<Promotion[]> {
+    return db.select().from(promotions).where(and(isNull(promotions.code), eq(promotions.isActive, true)));
+  }
+
+  async getPromotions(sellerId?: string): Promise<Promotion[]> {
+    const query = db.select().from(promotions);
+    return (sellerId ? query.where(eq(promotions.sellerId, sellerId)) : query).orderBy(desc(promotions.createdAt));
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const [newPromotion] = await db.insert(promotions).values(promotion).returning();
+    return newPromotion;
+  }
+
+  async updatePromotion(id: string, promotionData: Partial<InsertPromotion>): Promise<Promotion | undefined> {
+    const [promotion] = await db.update(promotions).set(promotionData).where(eq(promotions.id, id)).returning();
+    return promotion || undefined;
+  }
+
+  async getPromotionUsage(promotionId: string, userId: string): Promise<{ total: number; byUser: number }> {
+    return this.getPromotionUsageTx(db, promotionId, userId);
+  }
+
+  private async getPromotionUsageTx(tx: Transaction | typeof db, promotionId: string, userId: string) {
+    const [usage] = await tx
+      .select({
+        total: sql<number>`COUNT(*)::int`,
+        byUser: sql<number>`COUNT(*) FILTER (WHERE ${promotionRedemptions.userId} = ${userId})::int`,
+      })
+      .from(promotionRedemptions)
+      .where(eq(promotionRedemptions.promotionId, promotionId));
+    return { total: usage?.total ?? 0, byUser: usage?.byUser ?? 0 };
+  }
+
+  // Ledger and payouts
+  async getCommissionRules(): Promise<CommissionRule[]> {
+    return db.select().from(commissionRules).orderBy(desc(commissionRules.createdAt));
+  }
+
+  async createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule> {
+    const [newRule] = await db.insert(commissionRules).values(rule).returning();
+    return newRule;
+  }
+
+  async deleteCommissionRule(id: string): Promise<boolean> {
+    const result = await db.delete(commissionRules).where(eq(commissionRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Credits each seller with their share of a paid order; lines already recorded are skipped, and so are
+  // cancelled ones, whose stock has gone back on the shelf
+  async recordOrderSale(orderId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId));
+      if (!order || order.status === "cancelled") {
+        return;
+      }
+
+      const rules = await tx.select().from(commissionRules);
+      const lines = await tx
+        .select({ item: orderItems, sellerId: products.sellerId, category: products.category })
+        .from(orderItems)
+        .innerJoin(products, eq(orderItems.productId, products.id))
+        .leftJoin(orderFulfillments, eq(orderItems.fulfillmentId, orderFulfillments.id))
+        .where(and(
+          eq(orderItems.orderId, orderId),
+          or(isNull(orderFulfillments.id), ne(orderFulfillments.status, "cancelled")),
+        ));
+      const recorded = await tx.select({ orderItemId: ledgerTransactions.orderItemId }).from(ledgerTransactions)
+        .where(and(eq(ledgerTransactions.orderId, orderId), eq(ledgerTransactions.type, "sale")));
+      const recordedIds = new Set(recorded.map(row => row.orderItemId));
+
+      for (const { item, sellerId, category } of lines) {
+        if (recordedIds.has(item.id)) {
+          continue;
+        }
+        const rate = resolveCommissionRate(rules, sellerId, category);
+        await this.postLedgerTransaction(tx, {
+          type: "sale",
+          orderId,
+          orderItemId: item.id,
+          quantity: item.quantity,
+          commissionRate: rate.toFixed(4),
+          description: `Sale of ${item.quantity} x ${item.productId}`,
+        }, buildSaleEntries(sellerId, toCents(item.price) * item.quantity, rate, {
+          cents: toCents(item.discount ?? 0),
+          sellerFunded: item.sellerFundedDiscount,
+        }));
+      }
+    });
+  }
+
+  async recordRefund(orderItemId: string, quantity: number, description?: string): Promise<LedgerTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx.select().from(orderItems).where(eq(orderItems.id, orderItemId));
+      if (!item) {
+        return undefined;
+      }
+      return this.recordRefundTx(tx, item, quantity, description);
+    });
+  }
+
+  // Reverses up to `quantity` units of a recorded sale; unpaid lines have nothing to refund
+  private async recordRefundTx(
+    tx: Transaction,
+    item: OrderItem,
+    quantity: number,
+    description?: string,
+  ): Promise<LedgerTransaction | undefined> {
+    const history = await tx.select().from(ledgerTransactions)
+      .where(eq(ledgerTransactions.orderItemId, item.id))
+      .for("update");
+    const sale = history.find(entry => entry.type === "sale");
+    if (!sale) {
+      return undefined;
+    }
+
+    const alreadyRefunded = history
+      .filter(entry => entry.type === "refund")
+      .reduce((sum, entry) => sum + (entry.quantity ?? 0), 0);
+    const refundable = Math.min(quantity, (sale.quantity ?? item.quantity) - alreadyRefunded);
+    if (refundable <= 0) {
+      return undefined;
+    }
+
+    const [sellerEntry] = await tx.select().from(ledgerEntries)
+      .where(and(eq(ledgerEntries.transactionId, sale.id), eq(ledgerEntries.account, LEDGER_ACCOUNTS.sellerPayable)));
+    const discount = {
+      cents: Math.round(toCents(item.discount ?? 0) * refundable / item.quantity),
+      sellerFunded: item.sellerFundedDiscount,
+    };
+
+    return this.postLedgerTransaction(tx, {
+      type: "refund",
+      orderId: item.orderId,
+      orderItemId: item.id,
+      quantity: refundable,
+      commissionRate: sale.commissionRate,
+      description: description ?? `Refund of ${refundable} x ${item.productId}`,
+    }, buildRefundEntries(sellerEntry.sellerId!, toCents(item.price) * refundable, parseFloat(sale.commissionRate ?? "0"), discount));
+  }
+
+  private async postLedgerTransaction(
+    tx: Transaction,
+    transaction: typeof ledgerTransactions.$inferInsert,
+    entries: LedgerEntryInput[],
+  ): Promise<LedgerTransaction> {
+    if (entries.reduce((sum, entry) => sum + entry.amountCents, 0) !== 0) {
+      throw new Error("Ledger transaction does not balance");
+    }
+
+    const [newTransaction] = await tx.insert(ledgerTransactions).values(transaction).returning();
+    await tx.insert(ledgerEntries).values(entries.map(entry => ({
+      transactionId: newTransaction.id,
+      account: entry.account,
+      sellerId: entry.sellerId,
+      amount: fromCents(entry.amountCents),
+    })));
+    return newTransaction;
+  }
+
+  async getSellerBalance(sellerId: string): Promise<SellerBalance> {
+    return this.getSellerBalanceTx(db, sellerId);
+  }
+
+  private async getSellerBalanceTx(tx: Transaction | typeof db, sellerId: string): Promise<SellerBalance> {
+    const totals = await tx
+      .select({
+        type: ledgerTransactions.type,
+        total: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)`,
+      })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(and(eq(ledgerEntries.account, LEDGER_ACCOUNTS.sellerPayable), eq(ledgerEntries.sellerId, sellerId)))
+      .groupBy(ledgerTransactions.type);
+    const byType = (type: string) => toCents(totals.find(row => row.type === type)?.total ?? 0);
+
+    const [pending] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${payouts.amount}), 0)` })
+      .from(payouts)
+      .where(and(eq(payouts.sellerId, sellerId), inArray(payouts.status, ["requested", "approved"])));
+
+    // Seller payable is a credit balance, so flip the signs to report what is owed
+    const earned = -byType("sale");
+    const refunded = byType("refund");
+    const paidOut = byType("payout");
+    const balance = earned - refunded - paidOut;
+    const pendingPayouts = toCents(pending.total);
+
+    return {
+      earned: fromCents(earned),
+      refunded: fromCents(refunded),
+      paidOut: fromCents(paidOut),
+      balance: fromCents(balance),
+      pendingPayouts: fromCents(pendingPayouts),
+      available: fromCents(balance - pendingPayouts),
+    };
+  }
+
+  async getSellerLedger(sellerId: string): Promise<(LedgerEntry & { transaction: LedgerTransaction })[]> {
+    const rows = await db
+      .select({ entry: ledgerEntries, transaction: ledgerTransactions })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(and(eq(ledgerEntries.account, LEDGER_ACCOUNTS.sellerPayable), eq(ledgerEntries.sellerId, sellerId)))
+      .orderBy(desc(ledgerEntries.createdAt));
+
+    return rows.map(({ entry, transaction }) => ({ ...entry, transaction }));
+  }
+
+  async getPayout(id: string): Promise<Payout | undefined> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.id, id));
+    return payout || undefined;
+  }
+
+  async getPayoutsBySeller(sellerId: string): Promise<Payout[]> {
+    return db.select().from(payouts).where(eq(payouts.sellerId, sellerId)).orderBy(desc(payouts.createdAt));
+  }
+
+  async getPayouts(status?: PayoutStatus): Promise<Payout[]> {
+    const query = db.select().from(payouts);
+    return (status ? query.where(eq(payouts.status, status)) : query).orderBy(desc(payouts.createdAt));
+  }
+
+  async requestPayout(payout: InsertPayout): Promise<Payout> {
+    return await db.transaction(async (tx) => {
+      // Serialise payout requests per seller so two requests can't both spend the same balance
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${payout.sellerId}))`);
+
+      const balance = await this.getSellerBalanceTx(tx, payout.sellerId);
+      if (toCents(payout.amount) > toCents(balance.available)) {
+        throw new InsufficientBalanceError(balance.available);
+      }
+
+      const [newPayout] = await tx.insert(payouts).values(payout).returning();
+      return newPayout;
+    });
+  }
+
+  async reviewPayout(id: string, status: "approved" | "rejected", reviewedBy: string, note?: string): Promise<Payout | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(payouts).where(eq(payouts.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const allowed = status === "approved" ? ["requested"] : ["requested", "approved"];
+      if (!allowed.includes(current.status)) {
+        throw new InvalidPayoutTransitionError(current.status, status);
+      }
+
+      const [payout] = await tx.update(payouts)
+        .set({ status, reviewedBy, reviewedAt: new Date(), note: note ?? current.note })
+        .where(eq(payouts.id, id))
+        .returning();
+      return payout;
+    });
+  }
+
+  async markPayoutPaid(id: string, reviewedBy: string, reference: string): Promise<Payout | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(payouts).where(eq(payouts.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      if (current.status !== "approved") {
+        throw new InvalidPayoutTransitionError(current.status, "paid");
+      }
+
+      const [payout] = await tx.update(payouts)
+        .set({ status: "paid", reviewedBy, reference, paidAt: new Date() })
+        .where(eq(payouts.id, id))
+        .returning();
+
+      await this.postLedgerTransaction(tx, {
+        type: "payout",
+        payoutId: payout.id,
+        description: `Payout ${reference}`,
+      }, buildPayoutEntries(payout.sellerId, toCents(payout.amount)));
+
+      return payout;
+    });
+  }
+
+  // Returns
+  async createReturnRequest(orderId: string, buyerId: string, data: CreateReturn, photoUrls: string[]): Promise<ReturnRequest> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new ReturnRequestError("Order not found");
+      }
+
+      const requestedIds = data.items.map(item => item.orderItemId);
+      const lines = await tx
+        .select({ item: orderItems, sellerId: products.sellerId, fulfillmentStatus: orderFulfillments.status })
+        .from(orderItems)
+        .innerJoin(products, eq(orderItems.productId, products.id))
+        .leftJoin(orderFulfillments, eq(orderItems.fulfillmentId, orderFulfillments.id))
+        .where(and(eq(orderItems.orderId, orderId), inArray(orderItems.id, requestedIds)));
+
+      if (lines.length !== new Set(requestedIds).size) {
+        throw new ReturnRequestError("One or more items are not part of this order");
+      }
+
+      const sellerIds = new Set(lines.map(line => line.sellerId));
+      if (sellerIds.size > 1) {
+        throw new ReturnRequestError("Items from different sellers must be returned separately");
+      }
+
+      if (lines.some(line => (line.fulfillmentStatus ?? order.status) !== "delivered")) {
+        throw new ReturnRequestError("Only delivered items can be returned");
+      }
+
+      // Quantities already claimed by returns that are still open or were accepted
+      const claimed = await tx
+        .select({ orderItemId: returnItems.orderItemId, quantity: sql<number>`SUM(${returnItems.quantity})::int` })
+        .from(returnItems)
+        .innerJoin(returnRequests, eq(returnItems.returnId, returnRequests.id))
+        .where(and(inArray(returnItems.orderItemId, requestedIds), sql`${returnRequests.status} <> 'rejected'`))
+        .groupBy(returnItems.orderItemId);
+
+      for (const requested of data.items) {
+        const line = lines.find(entry => entry.item.id === requested.orderItemId)!;
+        const alreadyClaimed = claimed.find(entry => entry.orderItemId === requested.orderItemId)?.quantity ?? 0;
+        if (requested.quantity > line.item.quantity - alreadyClaimed) {
+          throw new ReturnRequestError(`Cannot return more than ${line.item.quantity - alreadyClaimed} of item ${line.item.id}`);
+        }
+      }
+
+      const [returnRequest] = await tx.insert(returnRequests).values({
+        orderId,
+        buyerId,
+        sellerId: lines[0].sellerId,
+        reason: data.reason,
+        description: data.description,
+      }).returning();
+
+      await tx.insert(returnItems).values(data.items.map(item => ({
+        returnId: returnRequest.id,
+        orderItemId: item.orderItemId,
+        quantity: item.quantity,
+      })));
+
+      if (photoUrls.length > 0) {
+        await tx.insert(returnPhotos).values(photoUrls.map(imageUrl => ({ returnId: returnRequest.id, imageUrl })));
+      }
+
+      return returnRequest;
+    });
+  }
+
+  async getReturnRequest(id: string): Promise<ReturnRequestDetails | undefined> {
+    const [returnRequest] = await db.select().from(returnRequests).where(eq(returnRequests.id, id));
+    if (!returnRequest) {
+      return undefined;
+    }
+
+    const items = await db.select().from(returnItems).where(eq(returnItems.returnId, id));
+    const photos = await db.select().from(returnPhotos).where(eq(returnPhotos.returnId, id));
+    return { ...returnRequest, items, photos };
+  }
+
+  async getReturnRequests(filter: { buyerId?: string; sellerId?: string }): Promise<ReturnRequest[]> {
+    const conditions = [];
+    if (filter.buyerId) {
+      conditions.push(eq(returnRequests.buyerId, filter.buyerId));
+    }
+    if (filter.sellerId) {
+      conditions.push(eq(returnRequests.sellerId, filter.sellerId));
+    }
+
+    return db.select().from(returnRequests).where(and(...conditions)).orderBy(desc(returnRequests.createdAt));
+  }
+
+  // Sellers answer new requests; admins can settle any open request, including escalated ones
+  async decideReturn(
+    id: string,
+    decision: "accepted" | "rejected",
+    decidedBy: string,
+    asAdmin: boolean,
+    note?: string,
+  ): Promise<ReturnRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(returnRequests).where(eq(returnRequests.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const open = asAdmin ? ["requested", "escalated"] : ["requested"];
+      if (!open.includes(current.status)) {
+        throw new ReturnRequestError(`Return is already ${current.status}`);
+      }
+
+      // Accepted returns go back into stock, reverse the seller's earnings for those units and
+      // refund the buyer what they paid for them
+      let refundAmount: string | null = null;
+      if (decision === "accepted") {
+        const [order] = await tx.select().from(orders).where(eq(orders.id, current.orderId)).for("update");
+        const lines = await tx
+          .select({ returned: returnItems, item: orderItems, fulfillment: orderFulfillments })
+          .from(returnItems)
+          .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+          .leftJoin(orderFulfillments, eq(orderItems.fulfillmentId, orderFulfillments.id))
+          .where(eq(returnItems.returnId, id));
+
+        // An escalated rejection may overlap a return opened after it, so only what no other
+        // accepted return has taken back can be returned now
+        const accepted = await tx
+          .select({ orderItemId: returnItems.orderItemId, quantity: sql<number>`SUM(${returnItems.quantity})::int` })
+          .from(returnItems)
+          .innerJoin(returnRequests, eq(returnItems.returnId, returnRequests.id))
+          .where(and(
+            inArray(returnItems.orderItemId, lines.map(line => line.item.id)),
+            eq(returnRequests.status, "accepted"),
+            ne(returnRequests.id, id),
+          ))
+          .groupBy(returnItems.orderItemId);
+
+        for (const { returned, item } of lines) {
+          const alreadyReturned = accepted.find(entry => entry.orderItemId === item.id)?.quantity ?? 0;
+          if (returned.quantity > item.quantity - alreadyReturned) {
+            throw new ReturnRequestError(`Only ${Math.max(item.quantity - alreadyReturned, 0)} of item ${item.id} can still be returned`);
+          }
+        }
+
+        let refund = 0;
+        for (const { returned, item, fulfillment } of lines) {
+          await this.restockItems(tx, [{ ...item, quantity: returned.quantity }]);
+          await this.recordRefundTx(tx, item, returned.quantity, `Return ${id} accepted`);
+          refund += paidForUnits(order, fulfillment, item, returned.quantity);
+        }
+        refundAmount = refund.toFixed(2);
+      }
+
+      const [returnRequest] = await tx.update(returnRequests).set({
+        status: decision,
+        ...(asAdmin ? { adminNote: note } : { sellerResponse: note }),
+        refundAmount,
+        resolvedBy: decidedBy,
+        resolvedAt: new Date(),
+      }).where(eq(returnRequests.id, id)).returning();
+
+      return returnRequest;
+    });
+  }
+
+  // A buyer may escalate a seller's rejection to an admin once
+  async escalateReturn(id: string): Promise<ReturnRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(returnRequests).where(eq(returnRequests.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      if (current.status !== "rejected" || current.escalatedAt) {
+        throw new ReturnRequestError("Only a seller's rejection can be escalated, and only once");
+      }
+
+      const [returnRequest] = await tx.update(returnRequests)
+        .set({ status: "escalated", escalatedAt: new Date(), resolvedAt: null })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      return returnRequest;
+    });
+  }
+
+  // Reviews
+  // Only published reviews count; products without any are left out
+  async getProductRatings(productIds: string[]): Promise<ProductRating[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        productId: productReviews.productId,
+        average: sql<number>`round(avg(${productReviews.rating}), 1)::float`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(productReviews)
+      .where(and(inArray(productReviews.productId, productIds), eq(productReviews.status, "published")))
+      .groupBy(productReviews.productId);
+  }
+
+  async getProductReviews(productId: string): Promise<ProductReviewDetails[]> {
+    return this.findReviews(and(eq(productReviews.productId, productId), eq(productReviews.status, "published")));
+  }
+
+  async getReviews(status?: ReviewStatus): Promise<ProductReviewDetails[]> {
+    return this.findReviews(status ? eq(productReviews.status, status) : undefined);
+  }
+
+  async getReview(id: string): Promise<ProductReviewDetails | undefined> {
+    const [review] = await this.findReviews(eq(productReviews.id, id));
+    return review;
+  }
+
+  private async findReviews(where: SQL | undefined): Promise<ProductReviewDetails[]> {
+    const rows = await db
+      .select({
+        review: productReviews,
+        product: { id: products.id, name: products.name, sellerId: products.sellerId },
+        reviewer: { id: users.id, username: users.username, businessName: users.businessName },
+      })
+      .from(productReviews)
+      .innerJoin(products, eq(productReviews.productId, products.id))
+      .innerJoin(users, eq(productReviews.userId, users.id))
+      .where(where)
+      .orderBy(desc(productReviews.createdAt));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const photos = await db.select().from(reviewPhotos)
+      .where(inArray(reviewPhotos.reviewId, rows.map(row => row.review.id)))
+      .orderBy(reviewPhotos.createdAt);
+    return rows.map(({ review, product, reviewer }) => ({
+      ...review,
+      product,
+      reviewer,
+      photos: photos.filter(photo => photo.reviewId === review.id),
+    }));
+  }
+
+  // A review needs a line of the product the buyer has received, the same test returns use
+  // Throws the ReviewError createReview would, so a review can be turned down before its photos are stored
+  async checkCanReview(productId: string, userId: string): Promise<void> {
+    await this.findReviewablePurchase(db, productId, userId);
+    const [existing] = await db.select({ id: productReviews.id }).from(productReviews)
+      .where(and(eq(productReviews.productId, productId), eq(productReviews.userId, userId)));
+    if (existing) {
+      throw new ReviewError("You have already reviewed this product");
+    }
+  }
+
+  // The buyer's latest delivered line for the product, which their review is tied to
+  private async findReviewablePurchase(tx: Transaction | typeof db, productId: string, userId: string): Promise<{ id: string }> {
+    const [purchase] = await tx
+      .select({ id: orderItems.id })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(orderFulfillments, eq(orderItems.fulfillmentId, orderFulfillments.id))
+      .where(and(
+        eq(orders.userId, userId),
+        eq(orderItems.productId, productId),
+        sql`coalesce(${orderFulfillments.status}, ${orders.status}) = 'delivered'`,
+      ))
+      .orderBy(desc(orders.createdAt))
+      .limit(1);
+    if (!purchase) {
+      throw new ReviewError("You can review a product once it has been delivered to you");
+    }
+    return purchase;
+  }
+
+  async createReview(productId: string, userId: string, data: CreateReview, photoUrls: string[]): Promise<ProductReview> {
+    return await db.transaction(async (tx) => {
+      const purchase = await this.findReviewablePurchase(tx, productId, userId);
+
+      const [review] = await tx.insert(productReviews)
+        .values({ ...data, productId, userId, orderItemId: purchase.id })
+        .onConflictDoNothing()
+        .returning();
+      if (!review) {
+        throw new ReviewError("You have already reviewed this product");
+      }
+
+      if (photoUrls.length > 0) {
+        await tx.insert(reviewPhotos).values(photoUrls.map(imageUrl => ({ reviewId: review.id, imageUrl })));
+      }
+      return review;
+    });
+  }
+
+  async replyToReview(id: string, reply: string): Promise<ProductReview | undefined> {
+    const [updated] = await db.update(productReviews)
+      .set({ sellerReply: reply, sellerRepliedAt: new Date() })
+      .where(eq(productReviews.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async moderateReview(id: string, status: ReviewStatus, moderatedBy: string, note?: string): Promise<ProductReview | undefined> {
+    const [updated] = await db.update(productReviews)
+      .set({ status, moderatedBy, moderationNote: note ?? null })
+      .where(eq(productReviews.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Seller storefronts
+  async getSellerStats(sellerId: string): Promise<SellerStats> {
+    const [reviews] = await db
+      .select({
+        average: sql<number | null>`round(avg(${productReviews.rating}), 1)::float`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(productReviews)
+      .innerJoin(products, eq(productReviews.productId, products.id))
+      .where(and(eq(products.sellerId, sellerId), eq(productReviews.status, "published")));
+
+    const [fulfillments] = await db
+      .select({
+        delivered: sql<number>`count(*) filter (where ${orderFulfillments.status} = 'delivered')::int`,
+        cancelled: sql<number>`count(*) filter (where ${orderFulfillments.status} = 'cancelled')::int`,
+      })
+      .from(orderFulfillments)
+      .where(eq(orderFulfillments.sellerId, sellerId));
+
+    // On time means handed over before the booked slot closed
+    const [slots] = await db
+      .select({
+        delivered: sql<number>`count(*)::int`,
+        onTime: sql<number>`count(*) filter (where ${deliveries.deliveredAt} <= ${deliveries.scheduledEnd})::int`,
+      })
+      .from(deliveries)
+      .innerJoin(orderFulfillments, eq(deliveries.fulfillmentId, orderFulfillments.id))
+      .where(and(eq(orderFulfillments.sellerId, sellerId), eq(deliveries.status, "delivered")));
+
+    const [responses] = await db
+      .select({
+        hours: sql<number | null>`round((avg(extract(epoch from ${rfqQuotes.createdAt} - ${rfqs.createdAt})) / 3600)::numeric, 1)::float`,
+      })
+      .from(rfqQuotes)
+      .innerJoin(rfqs, eq(rfqQuotes.rfqId, rfqs.id))
+      .where(eq(rfqQuotes.sellerId, sellerId));
+
+    const [listings] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(and(eq(products.sellerId, sellerId), eq(products.isActive, true), isNull(products.archivedAt)));
+
+    return {
+      reviewAverage: reviews.average,
+      reviewCount: reviews.count,
+      deliveredCount: fulfillments.delivered,
+      cancelledCount: fulfillments.cancelled,
+      scheduledDeliveredCount: slots.delivered,
+      onTimeCount: slots.onTime,
+      averageResponseHours: responses.hours,
+      activeProductCount: listings.count,
+    };
+  }
+
+  // RFQs
+  async createRfq(buyerId: string, data: CreateRfq): Promise<Rfq> {
+    return await db.transaction(async (tx) => {
+      const { items, ...details } = data;
+      const [rfq] = await tx.insert(rfqs).values({ ...details, buyerId }).returning();
+      await tx.insert(rfqItems).values(items.map(item => ({ ...item, rfqId: rfq.id })));
+      return rfq;
+    });
+  }
+
+  async getRfq(id: string): Promise<RfqDetails | undefined> {
+    const [rfq] = await db.select().from(rfqs).where(eq(rfqs.id, id));
+    if (!rfq) {
+      return undefined;
+    }
+
+    const items = await db.select().from(rfqItems).where(eq(rfqItems.rfqId, id));
+    const quotes = await db.select().from(rfqQuotes).where(eq(rfqQuotes.rfqId, id)).orderBy(rfqQuotes.createdAt);
+    const lines = quotes.length === 0 ? [] : await db.select().from(rfqQuoteLines)
+      .where(inArray(rfqQuoteLines.quoteId, quotes.map(quote => quote.id)));
+
+    return {
+      ...rfq,
+      items,
+      quotes: quotes.map(quote => ({ ...quote, lines: lines.filter(line => line.quoteId === quote.id) })),
+    };
+  }
+
+  async getRfqs(filter: { buyerId?: string; status?: RfqStatus }): Promise<Rfq[]> {
+    const conditions = [];
+    if (filter.buyerId) {
+      conditions.push(eq(rfqs.buyerId, filter.buyerId));
+    }
+    if (filter.status) {
+      conditions.push(eq(rfqs.status, filter.status));
+    }
+
+    return db.select().from(rfqs).where(and(...conditions)).orderBy(desc(rfqs.createdAt));
+  }
+
+  // Open RFQs a seller could quote on, plus any they have already quoted on
+  async getRfqsForSeller(sellerId: string): Promise<Rfq[]> {
+    const quoted = db.select({ rfqId: rfqQuotes.rfqId }).from(rfqQuotes).where(eq(rfqQuotes.sellerId, sellerId));
+    return db.select().from(rfqs)
+      .where(or(eq(rfqs.status, "open"), inArray(rfqs.id, quoted)))
+      .orderBy(desc(rfqs.createdAt));
+  }
+
+  async createRfqQuote(rfqId: string, sellerId: string, data: CreateRfqQuote): Promise<RfqQuote> {
+    return await db.transaction(async (tx) => {
+      const [rfq] = await tx.select().from(rfqs).where(eq(rfqs.id, rfqId)).for("update");
+      if (!rfq || rfq.status !== "open") {
+        throw new RfqError("This RFQ is no longer accepting quotes");
+      }
+
+      const [existing] = await tx.select().from(rfqQuotes)
+        .where(and(eq(rfqQuotes.rfqId, rfqId), eq(rfqQuotes.sellerId, sellerId), eq(rfqQuotes.status, "submitted")));
+      if (existing) {
+        throw new RfqError("Withdraw your current quote before submitting a new one");
+      }
+
+      const items = await tx.select().from(rfqItems).where(eq(rfqItems.rfqId, rfqId));
+      if (data.lines.some(line => !items.some(item => item.id === line.rfqItemId))) {
+        throw new RfqError("One or more quoted items are not part of this RFQ");
+      }
+
+      const quotedProducts = await tx.select().from(products)
+        .where(inArray(products.id, data.lines.map(line => line.productId)));
+      const variantIds = data.lines.flatMap(line => line.variantId ? [line.variantId] : []);
+      const quotedVariants = variantIds.length === 0 ? [] : await tx.select().from(productVariants)
+        .where(inArray(productVariants.id, variantIds));
+
+      for (const line of data.lines) {
+        const product = quotedProducts.find(candidate => candidate.id === line.productId);
+        if (!product || product.sellerId !== sellerId || !product.isActive) {
+          throw new RfqError("Quotes can only offer your own active products");
+        }
+        if (line.variantId && !quotedVariants.some(variant => variant.id === line.variantId && variant.productId === product.id)) {
+          throw new RfqError(`Variant ${line.variantId} does not belong to ${product.name}`);
+        }
+      }
+
+      const subtotal = data.lines.reduce((sum, line) => sum + parseFloat(line.unitPrice) * line.quantity, 0);
+      const { lines, ...details } = data;
+      const [quote] = await tx.insert(rfqQuotes).values({
+        ...details,
+        rfqId,
+        sellerId,
+        subtotal: subtotal.toFixed(2),
+      }).returning();
+
+      await tx.insert(rfqQuoteLines).values(lines.map(line => ({ ...line, quoteId: quote.id })));
+      return quote;
+    });
+  }
+
+  async withdrawRfqQuote(id: string): Promise<RfqQuote | undefined> {
+    const [quote] = await db.update(rfqQuotes)
+      .set({ status: "withdrawn" })
+      .where(and(eq(rfqQuotes.id, id), eq(rfqQuotes.status, "submitted")))
+      .returning();
+    return quote || undefined;
+  }
+
+  // Places the order at the quoted prices and awards the RFQ in one step, so an RFQ is only ever converted once
+  async acceptRfqQuote(
+    rfqId: string,
+    quoteId: string,
+    order: InsertOrder,
+    items: OrderItemInput[],
+    shipping: FulfillmentShipping[],
+  ): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const [rfq] = await tx.select().from(rfqs).where(eq(rfqs.id, rfqId)).for("update");
+      if (!rfq || rfq.status !== "open") {
+        throw new RfqError("This RFQ has already been closed or awarded");
+      }
+
+      const [quote] = await tx.select().from(rfqQuotes)
+        .where(and(eq(rfqQuotes.id, quoteId), eq(rfqQuotes.rfqId, rfqId)))
+        .for("update");
+      if (!quote || quote.status !== "submitted") {
+        throw new RfqError("This quote is no longer available");
+      }
+      if (quote.validUntil && quote.validUntil < new Date()) {
+        throw new RfqError("This quote has expired");
+      }
+
+      const newOrder = await this.createOrderTx(tx, order, items, [], shipping);
+
+      await tx.update(rfqQuotes).set({ status: "accepted" }).where(eq(rfqQuotes.id, quoteId));
+      await tx.update(rfqQuotes)
+        .set({ status: "rejected" })
+        .where(and(eq(rfqQuotes.rfqId, rfqId), eq(rfqQuotes.status, "submitted")));
+      await tx.update(rfqs).set({ status: "awarded", orderId: newOrder.id }).where(eq(rfqs.id, rfqId));
+
+      return newOrder;
+    });
+  }
+
+  async closeRfq(id: string): Promise<Rfq | undefined> {
+    return await db.transaction(async (tx) => {
+      const [rfq] = await tx.update(rfqs)
+        .set({ status: "closed" })
+        .where(and(eq(rfqs.id, id), eq(rfqs.status, "open")))
+        .returning();
+      if (!rfq) {
+        return undefined;
+      }
+
+      await tx.update(rfqQuotes)
+        .set({ status: "rejected" })
+        .where(and(eq(rfqQuotes.rfqId, id), eq(rfqQuotes.status, "submitted")));
+      return rfq;
+    });
+  }
+
+  // Idempotency keys
+  // Returns the new row, or undefined if the key was already taken by an earlier request that hasn't expired
+  async reserveIdempotencyKey(userId: string, key: string, requestHash: string, expiredBefore: Date): Promise<IdempotencyKey | undefined> {
+    await db.delete(idempotencyKeys).where(and(
+      eq(idempotencyKeys.userId, userId),
+      eq(idempotencyKeys.key, key),
+      lt(idempotencyKeys.createdAt, expiredBefore),
+    ));
+    const [reserved] = await db.insert(idempotencyKeys)
+      .values({ userId, key, requestHash })
+      .onConflictDoNothing()
+      .returning();
+    return reserved || undefined;
+  }
+
+  async getIdempotencyKey(userId: string, key: string): Promise<IdempotencyKey | undefined> {
+    const [record] = await db.select().from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+    return record || undefined;
+  }
+
+  async saveIdempotentResponse(id: string, status: number, body: unknown): Promise<void> {
+    await db.update(idempotencyKeys)
+      .set({ responseStatus: status, responseBody: body ?? null })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  // Projects
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    return project || undefined;
+  }
+
+  async getProjectsByClient(clientId: string): Promise<Project[]> {
+    return db.select().from(projects).where(eq(projects.clientId, clientId)).orderBy(desc(projects.createdAt));
+  }
+
+  async getAllProjects(): Promise<Project[]> {
+    return db.select().from(projects).orderBy(desc(projects.createdAt));
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    const [newProject] = await db.insert(projects).values(project).returning();
+    return newProject;
+  }
+
+  async updateProject(id: string, projectData: Partial<InsertProject>): Promise<Project | undefined> {
+    const [project] = await db.update(projects).set(projectData).where(eq(projects.id, id)).returning();
+    return project || undefined;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    const result = await db.delete(projects).where(eq(projects.id, id));
+    return result.rowCount > 0;
+  }
+
+  // Milestones
+  async getMilestonesByProject(projectId: string): Promise<Milestone[]> {
+    return db.select().from(milestones).where(eq(milestones.projectId, projectId)).orderBy(desc(milestones.createdAt));
+  }
+
+  async createMilestone(milestone: InsertMilestone): Promise<Milestone> {
+    const [newMilestone] = await db.insert(milestones).values(milestone).returning();
+    return newMilestone;
+  }
+
+  async updateMilestone(id: string, milestoneData: Partial<InsertMilestone>): Promise<Milestone | undefined> {
+    const [milestone] = await db.update(milestones).set(milestoneData).where(eq(milestones.id, id)).returning();
+    return milestone || undefined;
+  }
+
+  async deleteMilestone(id: string): Promise<boolean> {
+    const result = await db.delete(milestones).where(eq(milestones.id, id));
+    return result.rowCount > 0;
+  }
+
+  // Progress Images
+  async getProgressImagesByProject(projectId: string): Promise<ProgressImage[]> {
+    return db.select().from(progressImages).where(eq(progressImages.projectId, projectId)).orderBy(desc(progressImages.createdAt));
+  }
+
+  async createProgressImage(image: InsertProgressImage): Promise<ProgressImage> {
+    const [newImage] = await db.insert(progressImages).values(image).returning();
+    return newImage;
+  }
+
+  async deleteProgressImage(id: string): Promise<boolean> {
+    const result = await db.delete(progressImages).where(eq(progressImages.id, id));
+    return result.rowCount > 0;
+  }
+
+  // Project Inventory
+  async getProjectInventory(projectId: string): Promise<ProjectInventory[]> {
+    return db.select().from(projectInventory).where(eq(projectInventory.projectId, projectId)).orderBy(desc(projectInventory.createdAt));
+  }
+
+  async getInventoryItem(id: string): Promise<ProjectInventory | undefined> {
+    const [item] = await db.select().from(projectInventory).where(eq(projectInventory.id, id));
+    return item || undefined;
   }
 
   async createInventoryItem(item: InsertProjectInventory): Promise<ProjectInventory> {
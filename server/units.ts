@@ -0,0 +1,44 @@
+import { units, type Product, type UnitCode } from "@shared/schema";
+
+// Thrown when two quantities can't be expressed in a common unit
+export class UnitConversionError extends Error {
+  constructor(from: string, to: string) {
+    super(`Cannot convert ${units[from as UnitCode]?.plural ?? from} to ${units[to as UnitCode]?.plural ?? to}`);
+    this.name = "UnitConversionError";
+  }
+}
+
+export function convertQuantity(quantity: number, from: UnitCode, to: UnitCode): number {
+  if (from === to) {
+    return quantity;
+  }
+  const source = units[from];
+  const target = units[to];
+  if (source.dimension !== target.dimension || source.toBase === undefined || target.toBase === undefined) {
+    throw new UnitConversionError(from, to);
+  }
+  return quantity * source.toBase / target.toBase;
+}
+
+/**
+ * How much of `unit` one of the product's sale units holds: directly when the units share a
+ * dimension, otherwise through the pack size (a 50kg bag holds 0.05 tonne).
+ */
+export function quantityPerSaleUnit(product: Product, unit: UnitCode): number {
+  const saleUnit = product.unit as UnitCode;
+  try {
+    return convertQuantity(1, saleUnit, unit);
+  } catch (error) {
+    if (!product.packSize || !product.packUnit) {
+      throw error;
+    }
+    return convertQuantity(parseFloat(product.packSize), product.packUnit as UnitCode, unit);
+  }
+}
+
+// Whole sale units of the product needed to cover a quantity measured in another unit
+export function saleUnitsFor(product: Product, quantity: number, unit: UnitCode): number {
+  const perSaleUnit = quantityPerSaleUnit(product, unit);
+  // Round away float noise before taking the ceiling so 2.0000000001 bags doesn't become 3
+  return Math.ceil(Math.round((quantity / perSaleUnit) * 1e6) / 1e6);
+}
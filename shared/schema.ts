@@ -1,11 +1,128 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, integer, timestamp, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, integer, timestamp, boolean, pgEnum, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-export const roleEnum = pgEnum("role", ["buyer", "seller", "client", "admin"]);
+export const roleEnum = pgEnum("role", ["buyer", "seller", "client", "admin", "driver"]);
 export const orderStatusEnum = pgEnum("order_status", ["pending", "confirmed", "shipped", "delivered", "cancelled"]);
+
+// Legal order status changes; delivered and cancelled are terminal
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const paymentMethodEnum = pgEnum("payment_method", ["mtn_momo", "telecel_cash", "airteltigo_money", "card"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "succeeded", "failed"]);
+export const ledgerTransactionTypeEnum = pgEnum("ledger_transaction_type", ["sale", "refund", "payout"]);
+export const payoutStatusEnum = pgEnum("payout_status", ["requested", "approved", "rejected", "paid"]);
+export const returnStatusEnum = pgEnum("return_status", ["requested", "accepted", "rejected", "escalated"]);
+export const returnReasonEnum = pgEnum("return_reason", ["damaged", "wrong_item", "not_as_described", "missing_parts", "other"]);
+export const rfqStatusEnum = pgEnum("rfq_status", ["open", "awarded", "closed"]);
+export const rfqQuoteStatusEnum = pgEnum("rfq_quote_status", ["submitted", "accepted", "rejected", "withdrawn"]);
+export const discountTypeEnum = pgEnum("discount_type", ["percentage", "fixed"]);
 export const milestoneStatusEnum = pgEnum("milestone_status", ["pending", "in_progress", "completed"]);
+export const shippingRateTypeEnum = pgEnum("shipping_rate_type", ["flat", "weight", "volume"]);
+export const deliveryStatusEnum = pgEnum("delivery_status", ["scheduled", "assigned", "out_for_delivery", "delivered", "failed"]);
+export const recurringFrequencyEnum = pgEnum("recurring_frequency", ["weekly", "fortnightly", "monthly"]);
+export const recurringOrderStatusEnum = pgEnum("recurring_order_status", ["active", "paused", "ended"]);
+export const reviewStatusEnum = pgEnum("review_status", ["published", "hidden"]);
+
+// Legal delivery status changes; a failed delivery goes back to scheduled or assigned when it's rebooked
+export const deliveryStatusTransitions: Record<DeliveryStatus, DeliveryStatus[]> = {
+  scheduled: ["assigned", "failed"],
+  assigned: ["out_for_delivery", "failed"],
+  out_for_delivery: ["delivered", "failed"],
+  delivered: [],
+  failed: ["scheduled", "assigned"],
+};
+
+// The sixteen administrative regions; delivery zones and buyer addresses are matched on these
+export const ghanaRegions = [
+  "Greater Accra", "Ashanti", "Central", "Eastern", "Western", "Western North", "Volta", "Oti",
+  "Northern", "Savannah", "North East", "Upper East", "Upper West", "Bono", "Bono East", "Ahafo",
+] as const;
+
+export type GhanaRegion = (typeof ghanaRegions)[number];
+
+export const weekdays = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+export type Weekday = (typeof weekdays)[number];
+
+// Opening and closing times as 24-hour "HH:MM"; a day that's missing is a day the yard is closed
+export type OpeningHours = Partial<Record<Weekday, { opens: string; closes: string }>>;
+
+// "Mon-Fri 07:00-17:00, Sat 08:00-13:00" style label, joining neighbouring days with the same hours
+export function formatOpeningHours(hours: OpeningHours): string {
+  const label = (day: Weekday) => day.charAt(0).toUpperCase() + day.slice(1);
+  const groups: { from: Weekday; to: Weekday; times: string }[] = [];
+  for (const day of weekdays) {
+    const open = hours[day];
+    if (!open) continue;
+    const times = `${open.opens}-${open.closes}`;
+    const last = groups[groups.length - 1];
+    if (last && last.times === times && weekdays.indexOf(last.to) === weekdays.indexOf(day) - 1) {
+      last.to = day;
+    } else {
+      groups.push({ from: day, to: day, times });
+    }
+  }
+  if (groups.length === 0) {
+    return "Closed";
+  }
+  return groups.map(group => `${label(group.from)}${group.from === group.to ? "" : `-${label(group.to)}`} ${group.times}`).join(", ");
+}
+
+// Units of measure shared by product listings and project inventory. Units in the same dimension
+// convert through toBase (kg, m, m², m³ or a single piece); packaging units like bags and truckloads
+// have no fixed size and only convert through a product's pack size.
+export const unitCodes = [
+  "piece", "bag", "bundle", "sheet", "roll", "pallet", "truckload",
+  "kg", "tonne", "m", "ft", "m2", "ft2", "m3", "litre",
+] as const;
+
+export type UnitCode = (typeof unitCodes)[number];
+export type UnitDimension = "count" | "mass" | "length" | "area" | "volume" | "package";
+
+export const units: Record<UnitCode, { label: string; plural: string; dimension: UnitDimension; toBase?: number }> = {
+  piece: { label: "piece", plural: "pieces", dimension: "count", toBase: 1 },
+  bag: { label: "bag", plural: "bags", dimension: "package" },
+  bundle: { label: "bundle", plural: "bundles", dimension: "package" },
+  sheet: { label: "sheet", plural: "sheets", dimension: "package" },
+  roll: { label: "roll", plural: "rolls", dimension: "package" },
+  pallet: { label: "pallet", plural: "pallets", dimension: "package" },
+  truckload: { label: "truckload", plural: "truckloads", dimension: "package" },
+  kg: { label: "kg", plural: "kg", dimension: "mass", toBase: 1 },
+  tonne: { label: "tonne", plural: "tonnes", dimension: "mass", toBase: 1000 },
+  m: { label: "m", plural: "m", dimension: "length", toBase: 1 },
+  ft: { label: "ft", plural: "ft", dimension: "length", toBase: 0.3048 },
+  m2: { label: "m²", plural: "m²", dimension: "area", toBase: 1 },
+  ft2: { label: "ft²", plural: "ft²", dimension: "area", toBase: 0.09290304 },
+  m3: { label: "m³", plural: "m³", dimension: "volume", toBase: 1 },
+  litre: { label: "litre", plural: "litres", dimension: "volume", toBase: 0.001 },
+};
+
+// Free-text units from before the registry existed, mapped onto unit codes
+const unitAliases: Record<string, UnitCode> = {
+  pieces: "piece", pcs: "piece", pc: "piece", units: "piece", unit: "piece",
+  bags: "bag", bundles: "bundle", sheets: "sheet", rolls: "roll", pallets: "pallet",
+  truckloads: "truckload", trips: "truckload", trip: "truckload",
+  kgs: "kg", kilograms: "kg", kilogram: "kg", tonnes: "tonne", tons: "tonne", ton: "tonne", t: "tonne",
+  meters: "m", metres: "m", meter: "m", metre: "m", feet: "ft", foot: "ft",
+  "m²": "m2", sqm: "m2", "sq m": "m2", sqft: "ft2", "sq ft": "ft2",
+  "m³": "m3", cbm: "m3", "cubic meters": "m3", "cubic metres": "m3", liters: "litre", litres: "litre", liter: "litre", l: "litre",
+};
+
+export function parseUnit(value: string): UnitCode | undefined {
+  const normalized = value.trim().toLowerCase();
+  if ((unitCodes as readonly string[]).includes(normalized)) {
+    return normalized as UnitCode;
+  }
+  return unitAliases[normalized];
+}
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -24,9 +141,48 @@ export const products = pgTable("products", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   stock: integer("stock").notNull().default(0),
   category: text("category").notNull(),
+  unit: text("unit").notNull().default("piece"), // unit code the price and stock are counted in
+  packSize: decimal("pack_size", { precision: 10, scale: 3 }), // contents of one sale unit, e.g. 50 for a 50kg bag
+  packUnit: text("pack_unit"), // unit code of packSize
+  shippingWeight: decimal("shipping_weight", { precision: 10, scale: 3 }), // kg per sale unit, when the unit doesn't say
+  shippingVolume: decimal("shipping_volume", { precision: 10, scale: 3 }), // m³ per sale unit, when the unit doesn't say
   imageUrl: text("image_url"),
   sellerId: varchar("seller_id").notNull(),
   isActive: boolean("is_active").default(true),
+  archivedAt: timestamp("archived_at"), // set instead of deleting once an order refers to the product
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Bulk pricing: a tier's price applies from its minimum quantity up to the next tier
+export const productPriceTiers = pgTable("product_price_tiers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  minQuantity: integer("min_quantity").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("product_price_tiers_product_min_unique").on(table.productId, table.minQuantity),
+]);
+
+// Option axes a seller can vary a product along
+export const variantOptionAxes = ["size", "gauge", "colour", "grade"] as const;
+
+// "12mm / Grade 60" style label in axis order
+export function formatVariantOptions(options: Partial<Record<(typeof variantOptionAxes)[number], string>>): string {
+  return variantOptionAxes.filter(axis => options[axis]).map(axis => options[axis]).join(" / ");
+}
+
+// A purchasable version of a product, e.g. a 12mm iron rod; carries its own SKU, price and stock
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  sku: text("sku").notNull().unique(),
+  options: jsonb("options").$type<Partial<Record<(typeof variantOptionAxes)[number], string>>>().notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  stock: integer("stock").notNull().default(0),
+  imageUrl: text("image_url"),
+  isActive: boolean("is_active").notNull().default(true),
+  archivedAt: timestamp("archived_at"), // set instead of deleting once an order refers to the variant
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -34,27 +190,425 @@ export const cartItems = pgTable("cart_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
   quantity: integer("quantity").notNull().default(1),
+  price: decimal("price", { precision: 10, scale: 2 }), // unit price the buyer saw when adding; null on older rows
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
-  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  nhil: decimal("nhil", { precision: 10, scale: 2 }).notNull().default("0"),
+  getfundLevy: decimal("getfund_levy", { precision: 10, scale: 2 }).notNull().default("0"),
+  covidLevy: decimal("covid_levy", { precision: 10, scale: 2 }).notNull().default("0"),
+  vat: decimal("vat", { precision: 10, scale: 2 }).notNull().default("0"),
+  shippingFee: decimal("shipping_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // grand total charged to the buyer
   status: orderStatusEnum("status").notNull().default("pending"),
   shippingAddress: text("shipping_address").notNull(),
+  shippingRegion: text("shipping_region"),
+  shippingDistrict: text("shipping_district"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One per seller within an order, so each seller ships and tracks their own part
+export const orderFulfillments = pgTable("order_fulfillments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  sellerId: varchar("seller_id").notNull(),
+  status: orderStatusEnum("status").notNull().default("pending"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  shippingFee: decimal("shipping_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  deliveryZoneId: varchar("delivery_zone_id"), // null when the seller's default rate applied
+  // Set when the buyer collects from the seller's yard instead; the code is shown to the buyer only
+  pickupLocationId: varchar("pickup_location_id"),
+  pickupCode: text("pickup_code"),
+  carrier: text("carrier"),
+  trackingNumber: text("tracking_number"),
+  shippedAt: timestamp("shipped_at"),
+  deliveredAt: timestamp("delivered_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const orderItems = pgTable("order_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").notNull(),
+  fulfillmentId: varchar("fulfillment_id"),
   productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  // The line's share of the order's promotion discount, null on older rows, and whether it came from
+  // the seller's own promotion rather than the platform's
+  discount: decimal("discount", { precision: 10, scale: 2 }),
+  sellerFundedDiscount: boolean("seller_funded_discount").notNull().default(false),
+  // The listing as it was at purchase, so later edits don't rewrite history; null on older rows
+  productName: text("product_name"),
+  productDescription: text("product_description"),
+  productImageUrl: text("product_image_url"),
+  productUnit: text("product_unit"),
+  sellerId: varchar("seller_id"),
+  sellerName: text("seller_name"),
+});
+
+// Where a seller delivers and what it costs. A zone covers a whole region, or one district in it;
+// the fee is flat or a base fee plus a rate per kg or m³, waived above the free-delivery threshold.
+export const deliveryZones = pgTable("delivery_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull(),
+  name: text("name").notNull(),
+  region: text("region").notNull(),
+  district: text("district"),
+  rateType: shippingRateTypeEnum("rate_type").notNull().default("flat"),
+  baseFee: decimal("base_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  rate: decimal("rate", { precision: 10, scale: 2 }), // per kg or per m³; unused for flat zones
+  freeDeliveryThreshold: decimal("free_delivery_threshold", { precision: 10, scale: 2 }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A seller's depot or yard where buyers can collect orders with their own transport
+export const pickupLocations = pgTable("pickup_locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull(),
+  name: text("name").notNull(),
+  address: text("address").notNull(),
+  region: text("region").notNull(),
+  openingHours: jsonb("opening_hours").$type<OpeningHours>().notNull().default({}),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Invoice numbers are issued in sequence the first time an order's invoice is generated
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().unique(),
+  number: integer("number").notNull().unique(),
+  issuedAt: timestamp("issued_at").defaultNow(),
+});
+
+// A fulfillment's trip to the buyer: the booked slot, the driver and, once it's handed over, the proof
+export const deliveries = pgTable("deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  fulfillmentId: varchar("fulfillment_id").notNull().unique(),
+  driverId: varchar("driver_id"),
+  status: deliveryStatusEnum("status").notNull().default("scheduled"),
+  scheduledStart: timestamp("scheduled_start").notNull(),
+  scheduledEnd: timestamp("scheduled_end").notNull(),
+  recipientName: text("recipient_name"),
+  proofPhotoUrl: text("proof_photo_url"),
+  signatureUrl: text("signature_url"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The delivery timeline shown to the buyer, one row per status change or rebooking
+export const deliveryEvents = pgTable("delivery_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deliveryId: varchar("delivery_id").notNull(),
+  status: deliveryStatusEnum("status").notNull(),
+  changedBy: varchar("changed_by").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  fulfillmentId: varchar("fulfillment_id"),
+  fromStatus: orderStatusEnum("from_status"),
+  toStatus: orderStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  method: paymentMethodEnum("method").notNull(),
+  provider: text("provider").notNull(), // which provider implementation handled it, e.g. "mtn_momo" or "mock"
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("GHS"),
+  status: paymentStatusEnum("status").notNull().default("pending"),
+  phoneNumber: text("phone_number"),
+  providerReference: text("provider_reference"),
+  // Set when money came in that the order can't take, e.g. it was cancelled or already paid; staff refund it
+  refundReason: text("refund_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every request to and callback from a provider, kept for reconciliation
+export const paymentAttempts = pgTable("payment_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull(),
+  source: text("source").notNull(), // initiate, webhook
+  status: paymentStatusEnum("status").notNull(),
+  providerReference: text("provider_reference"),
+  message: text("message"),
+  payload: jsonb("payload"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Promotions without a code apply automatically to every eligible cart
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  discountType: discountTypeEnum("discount_type").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(), // percent for percentage, amount for fixed
+  category: text("category"), // only items in this category count
+  sellerId: varchar("seller_id"), // only this seller's items count
+  minSpend: decimal("min_spend", { precision: 10, scale: 2 }), // on eligible items
+  maxUses: integer("max_uses"),
+  maxUsesPerUser: integer("max_uses_per_user"),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promotionId: varchar("promotion_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  orderId: varchar("order_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Commission the platform keeps; a seller rule beats a category rule, which beats the default rate
+export const commissionRules = pgTable("commission_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id"),
+  category: text("category"),
+  rate: decimal("rate", { precision: 5, scale: 4 }).notNull(), // 0.1000 = 10%
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Double-entry journal: each transaction's entries sum to zero (debits positive, credits negative)
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: ledgerTransactionTypeEnum("type").notNull(),
+  orderId: varchar("order_id"),
+  orderItemId: varchar("order_item_id"),
+  payoutId: varchar("payout_id"),
+  quantity: integer("quantity"),
+  commissionRate: decimal("commission_rate", { precision: 5, scale: 4 }),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  account: text("account").notNull(), // buyer_funds, seller_payable, platform_commission, platform_promotions, payouts_disbursed
+  sellerId: varchar("seller_id"),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const payouts = pgTable("payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  status: payoutStatusEnum("status").notNull().default("requested"),
+  method: text("method").notNull(), // mobile_money, bank_transfer
+  destination: text("destination").notNull(), // wallet number or bank account
+  note: text("note"),
+  reference: text("reference"), // transfer reference once paid
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A buyer's request to send back lines from one seller's part of an order
+export const returnRequests = pgTable("return_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  buyerId: varchar("buyer_id").notNull(),
+  sellerId: varchar("seller_id").notNull(),
+  status: returnStatusEnum("status").notNull().default("requested"),
+  reason: returnReasonEnum("reason").notNull(),
+  description: text("description"),
+  sellerResponse: text("seller_response"),
+  adminNote: text("admin_note"),
+  // What the buyer gets back once the return is accepted: the returned units as they were paid for, taxes and delivery included
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
+  resolvedBy: varchar("resolved_by"),
+  escalatedAt: timestamp("escalated_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const returnItems = pgTable("return_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  returnId: varchar("return_id").notNull(),
+  orderItemId: varchar("order_item_id").notNull(),
+  quantity: integer("quantity").notNull(),
 });
 
+export const returnPhotos = pgTable("return_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  returnId: varchar("return_id").notNull(),
+  imageUrl: text("image_url").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A buyer's rating of a product they've received; one per buyer and product
+export const productReviews = pgTable("product_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  orderItemId: varchar("order_item_id").notNull(), // the delivered purchase that verifies the review
+  rating: integer("rating").notNull(), // 1-5 stars
+  body: text("body").notNull(),
+  status: reviewStatusEnum("status").notNull().default("published"),
+  moderatedBy: varchar("moderated_by"),
+  moderationNote: text("moderation_note"),
+  sellerReply: text("seller_reply"), // shown publicly under the review
+  sellerRepliedAt: timestamp("seller_replied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("product_reviews_product_user_unique").on(table.productId, table.userId),
+]);
+
+export const reviewPhotos = pgTable("review_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reviewId: varchar("review_id").notNull(),
+  imageUrl: text("image_url").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A buyer's request for sellers to price a list of materials, optionally for one of their projects
+export const rfqs = pgTable("rfqs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  buyerId: varchar("buyer_id").notNull(),
+  projectId: varchar("project_id"),
+  title: text("title").notNull(),
+  notes: text("notes"),
+  deliveryAddress: text("delivery_address").notNull(),
+  deliveryRegion: text("delivery_region"), // prices delivery when a quote is accepted; null on RFQs posted before it was asked for
+  deliveryDistrict: text("delivery_district"),
+  neededBy: timestamp("needed_by"),
+  status: rfqStatusEnum("status").notNull().default("open"),
+  orderId: varchar("order_id"), // set when a quote is accepted
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const rfqItems = pgTable("rfq_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rfqId: varchar("rfq_id").notNull(),
+  productId: varchar("product_id"), // a listing the buyer had in mind, if any
+  description: text("description").notNull(),
+  quantity: integer("quantity").notNull(),
+  unit: text("unit").notNull(), // unit code from the units registry
+});
+
+// A seller's offer against an RFQ; accepting it turns its lines into an order
+export const rfqQuotes = pgTable("rfq_quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rfqId: varchar("rfq_id").notNull(),
+  sellerId: varchar("seller_id").notNull(),
+  status: rfqQuoteStatusEnum("status").notNull().default("submitted"),
+  deliveryDate: timestamp("delivery_date").notNull(),
+  validUntil: timestamp("valid_until"),
+  notes: text("notes"),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Each line offers one of the seller's own products, counted in that product's sale unit
+export const rfqQuoteLines = pgTable("rfq_quote_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id").notNull(),
+  rfqItemId: varchar("rfq_item_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+});
+
+// Named lists of products a user is planning to buy, with target quantities
+export const savedLists = pgTable("saved_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  shareToken: text("share_token").unique(), // set while the list is shared read-only by link
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const savedListItems = pgTable("saved_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listId: varchar("list_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  quantity: integer("quantity").notNull().default(1), // target quantity for the purchase
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Standing supply orders the scheduler places on the user's behalf, e.g. cement to a site every fortnight
+export const recurringOrders = pgTable("recurring_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  frequency: recurringFrequencyEnum("frequency").notNull(),
+  status: recurringOrderStatusEnum("status").notNull().default("active"),
+  shippingAddress: text("shipping_address").notNull(),
+  shippingRegion: text("shipping_region").notNull(),
+  shippingDistrict: text("shipping_district"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  endDate: timestamp("end_date"), // no runs after this; null runs until cancelled
+  remindedForRunAt: timestamp("reminded_for_run_at"), // the run the user was last warned about
+  lastRunAt: timestamp("last_run_at"),
+  lastOrderId: varchar("last_order_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const recurringOrderItems = pgTable("recurring_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recurringOrderId: varchar("recurring_order_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  quantity: integer("quantity").notNull(),
+  expectedPrice: decimal("expected_price", { precision: 10, scale: 2 }).notNull(), // unit price the user last saw
+});
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  type: text("type").notNull(), // e.g. recurring_order_placed, recurring_order_price_change
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  link: text("link"), // client route the notification opens
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Responses to create requests sent with an Idempotency-Key header, replayed on retries
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(),
+  responseStatus: integer("response_status"), // null while the first request is still running
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("idempotency_keys_user_key_unique").on(table.userId, table.key),
+]);
+
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -94,7 +648,7 @@ export const projectInventory = pgTable("project_inventory", {
   itemName: text("item_name").notNull(),
   description: text("description"),
   quantity: integer("quantity").notNull().default(0),
-  unit: text("unit").notNull(), // e.g., "bags", "pieces", "meters"
+  unit: text("unit").notNull(), // unit code from the units registry, e.g. "bag", "piece", "m"
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
   supplier: text("supplier"),
@@ -124,6 +678,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   orders: many(orders),
   projects: many(projects),
   progressImages: many(progressImages),
+  savedLists: many(savedLists),
 }));
 
 export const productsRelations = relations(products, ({ one, many }) => ({
@@ -133,6 +688,22 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   }),
   cartItems: many(cartItems),
   orderItems: many(orderItems),
+  priceTiers: many(productPriceTiers),
+  variants: many(productVariants),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productPriceTiersRelations = relations(productPriceTiers, ({ one }) => ({
+  product: one(products, {
+    fields: [productPriceTiers.productId],
+    references: [products.id],
+  }),
 }));
 
 export const cartItemsRelations = relations(cartItems, ({ one }) => ({
@@ -144,6 +715,10 @@ export const cartItemsRelations = relations(cartItems, ({ one }) => ({
     fields: [cartItems.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, {
+    fields: [cartItems.variantId],
+    references: [productVariants.id],
+  }),
 }));
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
@@ -152,6 +727,69 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     references: [users.id],
   }),
   orderItems: many(orderItems),
+  fulfillments: many(orderFulfillments),
+  statusHistory: many(orderStatusHistory),
+  payments: many(payments),
+  invoice: one(invoices),
+  deliveries: many(deliveries),
+}));
+
+export const orderFulfillmentsRelations = relations(orderFulfillments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [orderFulfillments.orderId],
+    references: [orders.id],
+  }),
+  seller: one(users, {
+    fields: [orderFulfillments.sellerId],
+    references: [users.id],
+  }),
+  deliveryZone: one(deliveryZones, {
+    fields: [orderFulfillments.deliveryZoneId],
+    references: [deliveryZones.id],
+  }),
+  delivery: one(deliveries),
+  pickupLocation: one(pickupLocations, {
+    fields: [orderFulfillments.pickupLocationId],
+    references: [pickupLocations.id],
+  }),
+  orderItems: many(orderItems),
+}));
+
+export const pickupLocationsRelations = relations(pickupLocations, ({ one }) => ({
+  seller: one(users, {
+    fields: [pickupLocations.sellerId],
+    references: [users.id],
+  }),
+}));
+
+export const deliveriesRelations = relations(deliveries, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [deliveries.orderId],
+    references: [orders.id],
+  }),
+  fulfillment: one(orderFulfillments, {
+    fields: [deliveries.fulfillmentId],
+    references: [orderFulfillments.id],
+  }),
+  driver: one(users, {
+    fields: [deliveries.driverId],
+    references: [users.id],
+  }),
+  events: many(deliveryEvents),
+}));
+
+export const deliveryEventsRelations = relations(deliveryEvents, ({ one }) => ({
+  delivery: one(deliveries, {
+    fields: [deliveryEvents.deliveryId],
+    references: [deliveries.id],
+  }),
+}));
+
+export const deliveryZonesRelations = relations(deliveryZones, ({ one }) => ({
+  seller: one(users, {
+    fields: [deliveryZones.sellerId],
+    references: [users.id],
+  }),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -159,10 +797,278 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.orderId],
     references: [orders.id],
   }),
+  fulfillment: one(orderFulfillments, {
+    fields: [orderItems.fulfillmentId],
+    references: [orderFulfillments.id],
+  }),
   product: one(products, {
     fields: [orderItems.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, {
+    fields: [orderItems.variantId],
+    references: [productVariants.id],
+  }),
+  seller: one(users, {
+    fields: [orderItems.sellerId],
+    references: [users.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  order: one(orders, {
+    fields: [invoices.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+  changedByUser: one(users, {
+    fields: [orderStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [payments.orderId],
+    references: [orders.id],
+  }),
+  user: one(users, {
+    fields: [payments.userId],
+    references: [users.id],
+  }),
+  attempts: many(paymentAttempts),
+}));
+
+export const paymentAttemptsRelations = relations(paymentAttempts, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentAttempts.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  seller: one(users, {
+    fields: [promotions.sellerId],
+    references: [users.id],
+  }),
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [promotionRedemptions.promotionId],
+    references: [promotions.id],
+  }),
+  order: one(orders, {
+    fields: [promotionRedemptions.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const ledgerTransactionsRelations = relations(ledgerTransactions, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [ledgerTransactions.orderId],
+    references: [orders.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [ledgerTransactions.orderItemId],
+    references: [orderItems.id],
+  }),
+  payout: one(payouts, {
+    fields: [ledgerTransactions.payoutId],
+    references: [payouts.id],
+  }),
+  entries: many(ledgerEntries),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  transaction: one(ledgerTransactions, {
+    fields: [ledgerEntries.transactionId],
+    references: [ledgerTransactions.id],
+  }),
+}));
+
+export const payoutsRelations = relations(payouts, ({ one }) => ({
+  seller: one(users, {
+    fields: [payouts.sellerId],
+    references: [users.id],
+  }),
+}));
+
+export const returnRequestsRelations = relations(returnRequests, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [returnRequests.orderId],
+    references: [orders.id],
+  }),
+  buyer: one(users, {
+    fields: [returnRequests.buyerId],
+    references: [users.id],
+  }),
+  items: many(returnItems),
+  photos: many(returnPhotos),
+}));
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnItems.returnId],
+    references: [returnRequests.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const returnPhotosRelations = relations(returnPhotos, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnPhotos.returnId],
+    references: [returnRequests.id],
+  }),
+}));
+
+export const productReviewsRelations = relations(productReviews, ({ one, many }) => ({
+  product: one(products, {
+    fields: [productReviews.productId],
+    references: [products.id],
+  }),
+  user: one(users, {
+    fields: [productReviews.userId],
+    references: [users.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [productReviews.orderItemId],
+    references: [orderItems.id],
+  }),
+  photos: many(reviewPhotos),
+}));
+
+export const reviewPhotosRelations = relations(reviewPhotos, ({ one }) => ({
+  review: one(productReviews, {
+    fields: [reviewPhotos.reviewId],
+    references: [productReviews.id],
+  }),
+}));
+
+export const rfqsRelations = relations(rfqs, ({ one, many }) => ({
+  buyer: one(users, {
+    fields: [rfqs.buyerId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [rfqs.projectId],
+    references: [projects.id],
+  }),
+  order: one(orders, {
+    fields: [rfqs.orderId],
+    references: [orders.id],
+  }),
+  items: many(rfqItems),
+  quotes: many(rfqQuotes),
+}));
+
+export const rfqItemsRelations = relations(rfqItems, ({ one }) => ({
+  rfq: one(rfqs, {
+    fields: [rfqItems.rfqId],
+    references: [rfqs.id],
+  }),
+  product: one(products, {
+    fields: [rfqItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const rfqQuotesRelations = relations(rfqQuotes, ({ one, many }) => ({
+  rfq: one(rfqs, {
+    fields: [rfqQuotes.rfqId],
+    references: [rfqs.id],
+  }),
+  seller: one(users, {
+    fields: [rfqQuotes.sellerId],
+    references: [users.id],
+  }),
+  lines: many(rfqQuoteLines),
+}));
+
+export const rfqQuoteLinesRelations = relations(rfqQuoteLines, ({ one }) => ({
+  quote: one(rfqQuotes, {
+    fields: [rfqQuoteLines.quoteId],
+    references: [rfqQuotes.id],
+  }),
+  rfqItem: one(rfqItems, {
+    fields: [rfqQuoteLines.rfqItemId],
+    references: [rfqItems.id],
+  }),
+  product: one(products, {
+    fields: [rfqQuoteLines.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [rfqQuoteLines.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const savedListsRelations = relations(savedLists, ({ one, many }) => ({
+  user: one(users, {
+    fields: [savedLists.userId],
+    references: [users.id],
+  }),
+  items: many(savedListItems),
+}));
+
+export const savedListItemsRelations = relations(savedListItems, ({ one }) => ({
+  list: one(savedLists, {
+    fields: [savedListItems.listId],
+    references: [savedLists.id],
+  }),
+  product: one(products, {
+    fields: [savedListItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [savedListItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const recurringOrdersRelations = relations(recurringOrders, ({ one, many }) => ({
+  user: one(users, {
+    fields: [recurringOrders.userId],
+    references: [users.id],
+  }),
+  lastOrder: one(orders, {
+    fields: [recurringOrders.lastOrderId],
+    references: [orders.id],
+  }),
+  items: many(recurringOrderItems),
+}));
+
+export const recurringOrderItemsRelations = relations(recurringOrderItems, ({ one }) => ({
+  recurringOrder: one(recurringOrders, {
+    fields: [recurringOrderItems.recurringOrderId],
+    references: [recurringOrders.id],
+  }),
+  product: one(products, {
+    fields: [recurringOrderItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [recurringOrderItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
 }));
 
 export const projectsRelations = relations(projects, ({ one, many }) => ({
@@ -219,8 +1125,49 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+const productUnitFields = {
+  unit: z.enum(unitCodes),
+  packSize: z.string().regex(/^\d+(\.\d{1,3})?$/, "Pack size must be a positive number").nullish(),
+  packUnit: z.enum(unitCodes).nullish(),
+};
+
+const productShippingFields = {
+  shippingWeight: z.string().regex(/^\d+(\.\d{1,3})?$/, "Shipping weight must be a positive number").nullish(),
+  shippingVolume: z.string().regex(/^\d+(\.\d{1,3})?$/, "Shipping volume must be a positive number").nullish(),
+};
+
+const hasMatchingPack = (product: { packSize?: string | null; packUnit?: string | null }) =>
+  !product.packSize === !product.packUnit;
+
+export const productUnitSchema = z.object(productUnitFields).refine(hasMatchingPack, {
+  message: "Pack size and pack unit go together",
+  path: ["packUnit"],
+});
+
+export const insertProductSchema = createInsertSchema(products, { ...productUnitFields, ...productShippingFields }).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
+}).refine(hasMatchingPack, {
+  message: "Pack size and pack unit go together",
+  path: ["packUnit"],
+});
+
+export const priceTiersSchema = z.array(z.object({
+  minQuantity: z.number().int().min(1),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Tier price must be a positive amount"),
+})).refine(tiers => new Set(tiers.map(tier => tier.minQuantity)).size === tiers.length, {
+  message: "Each tier needs a different minimum quantity",
+});
+
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  options: z.record(z.enum(variantOptionAxes), z.string().trim().min(1))
+    .refine(options => Object.keys(options).length > 0, "Pick at least one option for the variant"),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Variant price must be a positive amount"),
+  stock: z.number().int().min(0),
+}).omit({
   id: true,
+  archivedAt: true,
   createdAt: true,
 });
 
@@ -234,6 +1181,267 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
   createdAt: true,
 });
 
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const checkoutQuoteSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string(),
+    variantId: z.string().optional(),
+    quantity: z.number().int().positive(),
+  })).min(1),
+  promotionCode: z.string().optional(),
+  // Shipping is only priced once the buyer has said where the order is going
+  shippingRegion: z.enum(ghanaRegions).optional(),
+  shippingDistrict: z.string().trim().optional(),
+  // Sellers whose yard is chosen here are collected from instead of delivered by
+  pickupLocationIds: z.array(z.string()).optional(),
+});
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(orderStatusEnum.enumValues),
+  note: z.string().optional(),
+});
+
+export const updateFulfillmentStatusSchema = updateOrderStatusSchema.extend({
+  carrier: z.string().optional(),
+  trackingNumber: z.string().optional(),
+});
+
+// Booking or rebooking a delivery slot, optionally with the driver who'll make the trip
+export const scheduleDeliverySchema = z.object({
+  scheduledStart: z.coerce.date(),
+  scheduledEnd: z.coerce.date(),
+  driverId: z.string().nullish(),
+}).refine(slot => slot.scheduledEnd > slot.scheduledStart, {
+  message: "The delivery slot must end after it starts",
+  path: ["scheduledEnd"],
+});
+
+// What a driver reports from the road; delivered needs proof and has its own route
+export const updateDeliveryStatusSchema = z.object({
+  status: z.enum(["out_for_delivery", "failed"]),
+  note: z.string().optional(),
+});
+
+export const deliveryProofSchema = z.object({
+  recipientName: z.string().trim().min(1, "Recipient name is required"),
+  note: z.string().optional(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaymentAttemptSchema = createInsertSchema(paymentAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const startPaymentSchema = z.object({
+  method: z.enum(paymentMethodEnum.enumValues),
+  phoneNumber: z.string().regex(/^(\+?233|0)\d{9}$/, "Enter a valid Ghana phone number").optional(),
+}).refine(data => data.method === "card" || !!data.phoneNumber, {
+  message: "Phone number is required for mobile money",
+  path: ["phoneNumber"],
+});
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  code: z.string().trim().toUpperCase().min(3).optional().nullable(),
+  value: z.string().regex(/^\d+(\.\d{1,2})?$/, "Value must be a positive amount"),
+  startsAt: z.coerce.date().optional().nullable(),
+  endsAt: z.coerce.date().optional().nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+}).refine(data => data.discountType !== "percentage" || parseFloat(data.value) <= 100, {
+  message: "Percentage discounts cannot exceed 100",
+  path: ["value"],
+});
+
+export const insertDeliveryZoneSchema = createInsertSchema(deliveryZones, {
+  name: z.string().trim().min(1, "Zone name is required"),
+  region: z.enum(ghanaRegions),
+  district: z.string().trim().min(1).nullish(),
+  baseFee: z.string().regex(/^\d+(\.\d{1,2})?$/, "Base fee must be a positive amount"),
+  rate: z.string().regex(/^\d+(\.\d{1,2})?$/, "Rate must be a positive amount").nullish(),
+  freeDeliveryThreshold: z.string().regex(/^\d+(\.\d{1,2})?$/, "Threshold must be a positive amount").nullish(),
+}).omit({
+  id: true,
+  sellerId: true,
+  createdAt: true,
+}).refine(zone => zone.rateType === "flat" || zone.rateType === undefined || !!zone.rate, {
+  message: "Weight and volume rates need a rate per unit",
+  path: ["rate"],
+});
+
+const openingTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be in 24-hour HH:MM format");
+
+const dayHoursSchema = z.object({ opens: openingTime, closes: openingTime })
+  .refine(hours => hours.opens < hours.closes, { message: "Closing time must be after opening time" });
+
+export const openingHoursSchema = z.object({
+  mon: dayHoursSchema.optional(),
+  tue: dayHoursSchema.optional(),
+  wed: dayHoursSchema.optional(),
+  thu: dayHoursSchema.optional(),
+  fri: dayHoursSchema.optional(),
+  sat: dayHoursSchema.optional(),
+  sun: dayHoursSchema.optional(),
+});
+
+export const insertPickupLocationSchema = createInsertSchema(pickupLocations, {
+  name: z.string().trim().min(1, "Location name is required"),
+  address: z.string().trim().min(1, "Address is required"),
+  region: z.enum(ghanaRegions),
+  openingHours: openingHoursSchema,
+}).omit({
+  id: true,
+  sellerId: true,
+  createdAt: true,
+});
+
+export const collectPickupSchema = z.object({
+  code: z.string().trim().min(1, "Enter the buyer's pickup code"),
+});
+
+export const insertCommissionRuleSchema = createInsertSchema(commissionRules, {
+  rate: z.string().regex(/^(0(\.\d{1,4})?|1(\.0{1,4})?)$/, "Rate must be between 0 and 1"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  status: true,
+  reference: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  paidAt: true,
+  createdAt: true,
+});
+
+export const requestPayoutSchema = z.object({
+  amount: z.number().positive(),
+  method: z.enum(["mobile_money", "bank_transfer"]),
+  destination: z.string().min(1, "Payout destination is required"),
+  note: z.string().optional(),
+});
+
+export const createReturnSchema = z.object({
+  reason: z.enum(returnReasonEnum.enumValues),
+  description: z.string().optional(),
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    quantity: z.number().int().positive(),
+  })).min(1, "Select at least one item to return"),
+});
+
+export const returnDecisionSchema = z.object({
+  decision: z.enum(["accepted", "rejected"]),
+  note: z.string().optional(),
+});
+
+// Multipart forms send the rating as a string
+export const createReviewSchema = z.object({
+  rating: z.coerce.number().int().min(1, "Rate the product from 1 to 5 stars").max(5, "Rate the product from 1 to 5 stars"),
+  body: z.string().trim().min(1, "Tell other buyers about the product"),
+});
+
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1, "Reply can't be empty"),
+});
+
+export const moderateReviewSchema = z.object({
+  status: z.enum(reviewStatusEnum.enumValues),
+  note: z.string().optional(),
+});
+
+export const createRfqSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  notes: z.string().optional(),
+  deliveryAddress: z.string().trim().min(1, "Delivery address is required"),
+  deliveryRegion: z.enum(ghanaRegions),
+  deliveryDistrict: z.string().trim().optional(),
+  neededBy: z.coerce.date().optional(),
+  projectId: z.string().optional(),
+  items: z.array(z.object({
+    productId: z.string().optional(),
+    description: z.string().trim().min(1, "Describe each item"),
+    quantity: z.number().int().positive(),
+    unit: z.enum(unitCodes),
+  })).min(1, "Add at least one item"),
+});
+
+export const createRfqQuoteSchema = z.object({
+  deliveryDate: z.coerce.date(),
+  validUntil: z.coerce.date().optional(),
+  notes: z.string().optional(),
+  lines: z.array(z.object({
+    rfqItemId: z.string(),
+    productId: z.string(),
+    variantId: z.string().optional(),
+    quantity: z.number().int().positive(),
+    unitPrice: z.string().regex(/^\d+(\.\d{1,2})?$/, "Unit price must be a positive amount"),
+  })).min(1, "Quote at least one item"),
+}).refine(data => new Set(data.lines.map(line => line.rfqItemId)).size === data.lines.length, {
+  message: "Quote each item only once",
+  path: ["lines"],
+});
+
+export const insertSavedListSchema = createInsertSchema(savedLists, {
+  name: z.string().trim().min(1, "List name is required"),
+}).omit({
+  id: true,
+  userId: true,
+  shareToken: true,
+  createdAt: true,
+});
+
+export const insertSavedListItemSchema = createInsertSchema(savedListItems, {
+  quantity: z.number().int().positive(),
+}).omit({
+  id: true,
+  listId: true,
+  createdAt: true,
+});
+
+const recurringOrderFields = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  frequency: z.enum(recurringFrequencyEnum.enumValues),
+  nextRunAt: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  shippingAddress: z.string().trim().min(1, "Delivery address is required"),
+  shippingRegion: z.enum(ghanaRegions),
+  shippingDistrict: z.string().trim().optional(),
+  items: z.array(z.object({
+    productId: z.string(),
+    variantId: z.string().optional(),
+    quantity: z.number().int().positive(),
+  })).min(1, "Add at least one item"),
+});
+
+export const createRecurringOrderSchema = recurringOrderFields.refine(data => !data.endDate || data.endDate > data.nextRunAt, {
+  message: "End date must be after the first order",
+  path: ["endDate"],
+});
+
+// Ended schedules stay ended; a paused one is picked up again from its next run date
+export const updateRecurringOrderSchema = recurringOrderFields.partial().extend({
+  status: z.enum(["active", "paused"]).optional(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
@@ -250,7 +1458,16 @@ export const insertProgressImageSchema = createInsertSchema(progressImages).omit
   createdAt: true,
 });
 
-export const insertProjectInventorySchema = createInsertSchema(projectInventory).omit({
+export const insertProjectInventorySchema = createInsertSchema(projectInventory, {
+  unit: z.string().transform((value, ctx) => {
+    const unit = parseUnit(value);
+    if (!unit) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown unit "${value}"` });
+      return z.NEVER;
+    }
+    return unit;
+  }),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -265,10 +1482,72 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductPriceTier = typeof productPriceTiers.$inferSelect;
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderStatus = (typeof orderStatusEnum.enumValues)[number];
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderFulfillment = typeof orderFulfillments.$inferSelect;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type DeliveryZone = typeof deliveryZones.$inferSelect;
+export type DeliveryStatus = (typeof deliveryStatusEnum.enumValues)[number];
+export type Delivery = typeof deliveries.$inferSelect;
+export type DeliveryEvent = typeof deliveryEvents.$inferSelect;
+export type ScheduleDelivery = z.infer<typeof scheduleDeliverySchema>;
+export type InsertDeliveryZone = z.infer<typeof insertDeliveryZoneSchema>;
+export type PickupLocation = typeof pickupLocations.$inferSelect;
+export type InsertPickupLocation = z.infer<typeof insertPickupLocationSchema>;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
+export type PaymentMethod = (typeof paymentMethodEnum.enumValues)[number];
+export type PaymentStatus = (typeof paymentStatusEnum.enumValues)[number];
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentAttempt = typeof paymentAttempts.$inferSelect;
+export type InsertPaymentAttempt = z.infer<typeof insertPaymentAttemptSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+export type CommissionRule = typeof commissionRules.$inferSelect;
+export type InsertCommissionRule = z.infer<typeof insertCommissionRuleSchema>;
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type PayoutStatus = (typeof payoutStatusEnum.enumValues)[number];
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+export type ReturnStatus = (typeof returnStatusEnum.enumValues)[number];
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type ReturnPhoto = typeof returnPhotos.$inferSelect;
+export type CreateReturn = z.infer<typeof createReturnSchema>;
+export type ReviewStatus = (typeof reviewStatusEnum.enumValues)[number];
+export type ProductReview = typeof productReviews.$inferSelect;
+export type ReviewPhoto = typeof reviewPhotos.$inferSelect;
+export type CreateReview = z.infer<typeof createReviewSchema>;
+export type RfqStatus = (typeof rfqStatusEnum.enumValues)[number];
+export type Rfq = typeof rfqs.$inferSelect;
+export type RfqItem = typeof rfqItems.$inferSelect;
+export type RfqQuote = typeof rfqQuotes.$inferSelect;
+export type RfqQuoteLine = typeof rfqQuoteLines.$inferSelect;
+export type CreateRfq = z.infer<typeof createRfqSchema>;
+export type CreateRfqQuote = z.infer<typeof createRfqQuoteSchema>;
+export type SavedList = typeof savedLists.$inferSelect;
+export type InsertSavedList = z.infer<typeof insertSavedListSchema>;
+export type SavedListItem = typeof savedListItems.$inferSelect;
+export type InsertSavedListItem = z.infer<typeof insertSavedListItemSchema>;
+export type RecurringFrequency = (typeof recurringFrequencyEnum.enumValues)[number];
+export type RecurringOrderStatus = (typeof recurringOrderStatusEnum.enumValues)[number];
+export type RecurringOrder = typeof recurringOrders.$inferSelect;
+export type RecurringOrderItem = typeof recurringOrderItems.$inferSelect;
+export type CreateRecurringOrder = z.infer<typeof createRecurringOrderSchema>;
+export type UpdateRecurringOrder = z.infer<typeof updateRecurringOrderSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Milestone = typeof milestones.$inferSelect;